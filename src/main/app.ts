@@ -1,7 +1,21 @@
 import * as path from 'path';
 
 import { HTTPError } from './HttpError';
+import { CSP_REPORT_PATH, cspNonce, nonceSource } from './middleware/csp';
+import { currentUser } from './middleware/currentUser';
+import { applyRateLimiting } from './middleware/rateLimit';
+import { requestId } from './middleware/requestId';
+import {
+  getSecurityOptions,
+  redactPath,
+  requestLogger,
+  securityHeaders,
+  suspiciousActivityDetector,
+  validateContentType,
+} from './middleware/security';
+import { getSessionTimeoutOptions, sessionTimeout } from './middleware/sessionTimeout';
 import { Nunjucks } from './modules/nunjucks';
+import { createSessionStore, getSessionStoreConfig } from './modules/session';
 import { logger } from './utils/logger';
 
 import * as bodyParser from 'body-parser';
@@ -9,7 +23,6 @@ import config from 'config';
 import cookieParser from 'cookie-parser';
 import csrf from 'csurf';
 import express, { NextFunction, Request, Response } from 'express';
-import { rateLimit } from 'express-rate-limit';
 import session from 'express-session';
 import { glob } from 'glob';
 import helmet from 'helmet';
@@ -25,19 +38,35 @@ app.locals.ENV = env;
 // Security: Disable Express signature
 app.disable('x-powered-by');
 
-// Security: Helmet for security headers
+// Security middleware is mounted in this order, each step switchable under `security.*` in config:
+// 1. request logging, before anything can reject the request, so blocked requests are logged too
+// 2. extra security headers, after helmet so they add to its defaults
+// 3. content type validation, before the body parsers read anything
+// 4. suspicious activity detection, once the body has been parsed
+const securityOptions = getSecurityOptions();
+
+// Correlation: runs first so every log line, backend call and error page for the request carries its ID
+app.use(requestId);
+
+if (securityOptions.requestLogging) {
+  app.use(requestLogger);
+}
+
+// Security: Helmet for security headers. Inline scripts and styles must carry the per-response nonce.
+app.use(cspNonce);
 app.use(
   helmet({
     contentSecurityPolicy: {
       directives: {
         defaultSrc: ["'self'"],
-        scriptSrc: ["'self'", "'unsafe-inline'", "'unsafe-eval'"],
-        styleSrc: ["'self'", "'unsafe-inline'"],
+        scriptSrc: ["'self'", nonceSource],
+        styleSrc: ["'self'", nonceSource],
         imgSrc: ["'self'", 'data:', 'https:'],
         fontSrc: ["'self'", 'data:'],
         connectSrc: ["'self'"],
         frameSrc: ["'none'"],
         objectSrc: ["'none'"],
+        reportUri: [CSP_REPORT_PATH],
       },
     },
     hsts: {
@@ -48,50 +77,62 @@ app.use(
   })
 );
 
-// Security: Rate limiting
-const limiter = rateLimit({
-  windowMs: config.has('rateLimiting.windowMs') ? config.get<number>('rateLimiting.windowMs') : 15 * 60 * 1000,
-  max: config.has('rateLimiting.max') ? config.get<number>('rateLimiting.max') : 100,
-  standardHeaders: true,
-  legacyHeaders: false,
-  message: 'Too many requests from this IP, please try again later.',
-  handler: (req: Request, res: Response) => {
-    logger.warn('Rate limit exceeded', { ip: req.ip, path: req.path });
-    res.status(429).render('error', {
-      message: 'Too many requests, please try again later.',
-      error: {},
-    });
-  },
-});
-app.use(limiter);
+if (securityOptions.securityHeaders) {
+  app.use(securityHeaders);
+}
 
 new Nunjucks(developmentMode).enableFor(app);
 
+if (securityOptions.contentTypeValidation) {
+  app.use(validateContentType);
+}
+
 app.use(bodyParser.json({ limit: '10mb' }));
 app.use(bodyParser.urlencoded({ extended: false, limit: '10mb' }));
 app.use(cookieParser());
 
+if (securityOptions.suspiciousActivity.enabled) {
+  app.use(suspiciousActivityDetector({ reportOnly: securityOptions.suspiciousActivity.reportOnly }));
+}
+
 // Session configuration
+const sessionStoreConfig = getSessionStoreConfig();
+const sessionTimeoutOptions = getSessionTimeoutOptions();
+logger.info('Using session store', { driver: sessionStoreConfig.driver });
 app.use(
   session({
+    store: createSessionStore(sessionStoreConfig),
     secret: config.get<string>('session.secret') || 'your-secret-key-change-in-production',
     resave: false,
     saveUninitialized: false,
+    // Every response pushes the cookie expiry back, so the session ends after a period of inactivity
+    rolling: true,
     cookie: {
       secure: env === 'production',
       httpOnly: true,
-      maxAge: 1000 * 60 * 60 * 24, // 24 hours
+      maxAge: sessionTimeoutOptions.idleTimeout,
       sameSite: 'strict',
     },
   })
 );
 
+// Security: Rate limiting. Limiters are keyed by the session user or by the submitted email, so they run after the
+// session and body parsers.
+applyRateLimiting(app);
+
 // CSRF Protection - use session storage instead of cookies
 const csrfProtection = csrf({
   cookie: false, // Use session instead of cookies
 });
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-app.use(csrfProtection as any);
+// Admin endpoints are called with a bearer token, and CSP reports are sent by the browser without cookies,
+// so CSRF does not apply to them
+app.use((req: Request, res: Response, next: NextFunction) => {
+  if (req.path.startsWith('/admin/') || req.path === CSP_REPORT_PATH) {
+    return next();
+  }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (csrfProtection as any)(req, res, next);
+});
 
 app.use(
   express.static(path.join(__dirname, 'public'), {
@@ -107,6 +148,17 @@ app.use((req: Request, res: Response, next: NextFunction) => {
   next();
 });
 
+// Forms in the shared layout, such as sign out, need a CSRF token on every page
+app.use((req: Request, res: Response, next: NextFunction) => {
+  res.locals.csrfToken = req.csrfToken?.() || '';
+  next();
+});
+
+app.use(sessionTimeout(sessionTimeoutOptions));
+
+// Runs after the maximum session age is enforced, and before any route can call the backend with an expired token
+app.use(currentUser());
+
 glob
   .sync(__dirname + '/routes/**/*.+(ts|js)')
   .map(filename => require(filename))
@@ -116,7 +168,7 @@ setupDev(app, developmentMode);
 
 // 404 handler - must come before error handler
 app.use((req: Request, res: Response) => {
-  logger.warn('Route not found', { path: req.path, method: req.method, ip: req.ip });
+  logger.warn('Route not found', { path: redactPath(req.path), method: req.method, ip: req.ip });
   res.status(404).render('not-found', {
     message: 'Page not found',
   });
@@ -131,14 +183,18 @@ app.use((err: HTTPError, req: Request, res: Response, next: NextFunction) => {
     error: err.message,
     stack: env === 'development' ? err.stack : undefined,
     status: err.status,
-    path: req.path,
+    path: redactPath(req.path),
     method: req.method,
     ip: req.ip,
   });
 
   // Handle CSRF errors specifically
+  if (err.code === 'EBADCSRFTOKEN' && req.path === '/auth/logout' && !req.session?.token) {
+    // The session already timed out, so there is nothing left to sign out of
+    return res.redirect('/auth/login');
+  }
   if (err.code === 'EBADCSRFTOKEN') {
-    logger.warn('CSRF token validation failed', { ip: req.ip, path: req.path });
+    logger.warn('CSRF token validation failed', { ip: req.ip, path: redactPath(req.path) });
     return res.status(403).render('error', {
       message: 'Form submission failed. Please refresh the page and try again.',
       error: {},
@@ -1,4 +1,16 @@
 import '../scss/main.scss';
+import { RetryAfter } from './retryAfter';
+import { TimeoutWarning } from './timeoutWarning';
+
 import { initAll } from 'govuk-frontend';
 
 initAll();
+
+const timeoutWarning = document.querySelector<HTMLElement>('[data-module="app-timeout-warning"]');
+if (timeoutWarning) {
+  new TimeoutWarning(timeoutWarning).init();
+}
+
+document.querySelectorAll<HTMLButtonElement>('button[data-retry-after]').forEach(button => {
+  new RetryAfter(button).init();
+});
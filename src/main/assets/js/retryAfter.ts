@@ -0,0 +1,24 @@
+/**
+ * Holds back a sign-in button while the backend has asked the user to wait, after a lockout or too many attempts.
+ * The server renders the wait in seconds as `data-retry-after`. Without JavaScript the button stays enabled and an
+ * early attempt is simply refused again.
+ */
+export class RetryAfter {
+  constructor(private readonly button: HTMLButtonElement) {}
+
+  init(): void {
+    const seconds = parseInt(this.button.dataset.retryAfter || '0', 10);
+    if (!(seconds > 0)) {
+      return;
+    }
+
+    this.button.disabled = true;
+    this.button.setAttribute('aria-disabled', 'true');
+    window.setTimeout(() => this.enable(), seconds * 1000);
+  }
+
+  private enable(): void {
+    this.button.disabled = false;
+    this.button.removeAttribute('aria-disabled');
+  }
+}
@@ -0,0 +1,216 @@
+const FOCUSABLE_SELECTOR = 'a[href], button:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Users are signed out this long before the session expires, so the sign-out still has a session to end
+const SIGN_OUT_MARGIN = 30 * 1000;
+
+/**
+ * Formats the time left as "2 minutes" or "45 seconds", matching the wording of the GOV.UK timeout pattern.
+ */
+export function formatTimeRemaining(seconds: number): string {
+  if (seconds >= 60) {
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  }
+  return `${seconds} second${seconds === 1 ? '' : 's'}`;
+}
+
+/**
+ * Opens an accessible modal shortly before an idle session times out. "Stay signed in" calls the
+ * keep-alive endpoint, which rolls the session cookie forward; otherwise the user is signed out just
+ * before the timeout. The session status is checked first, as the user may still be active in another tab.
+ */
+export class TimeoutWarning {
+  private readonly idleTimeout: number;
+  private readonly warningBefore: number;
+  private readonly keepAliveUrl: string;
+  private readonly sessionStatusUrl: string;
+  private readonly signOutForm: HTMLFormElement;
+  private readonly csrfToken: string;
+  private readonly dialog: HTMLElement;
+  private readonly countdown: HTMLElement;
+  private expiresAt = 0;
+  private warningTimer?: number;
+  private countdownTimer?: number;
+  private previouslyFocused: Element | null = null;
+
+  constructor(private readonly module: HTMLElement) {
+    this.idleTimeout = parseInt(module.dataset.idleTimeout || '0', 10) * 1000;
+    this.warningBefore = parseInt(module.dataset.warningBefore || '0', 10) * 1000;
+    this.keepAliveUrl = module.dataset.keepAliveUrl || '';
+    this.sessionStatusUrl = module.dataset.sessionStatusUrl || '';
+    this.csrfToken = module.dataset.csrfToken || '';
+    this.dialog = module.querySelector('.app-timeout-warning__dialog') as HTMLElement;
+    this.countdown = module.querySelector('.app-timeout-warning__countdown') as HTMLElement;
+    this.signOutForm = module.querySelector('[data-timeout-warning-sign-out]') as HTMLFormElement;
+  }
+
+  init(): void {
+    if (!this.idleTimeout || !this.dialog || !this.countdown || !this.signOutForm) {
+      return;
+    }
+
+    this.module.querySelector('[data-timeout-warning-action="stay"]')?.addEventListener('click', event => {
+      event.preventDefault();
+      this.staySignedIn();
+    });
+    this.module.addEventListener('keydown', event => this.handleKeydown(event));
+
+    this.startTimers();
+  }
+
+  private startTimers(timeRemaining = this.idleTimeout): void {
+    // Timers are checked against the clock because browsers throttle them in background tabs
+    this.expiresAt = Date.now() + timeRemaining - SIGN_OUT_MARGIN;
+    window.clearTimeout(this.warningTimer);
+    this.warningTimer = window.setTimeout(
+      () => this.warnIfIdle(),
+      Math.max(0, timeRemaining - SIGN_OUT_MARGIN - this.warningBefore)
+    );
+  }
+
+  /**
+   * Asks the server how long the session has left, without extending it. Resolves to 0 when the session has
+   * ended, or undefined when the check itself failed.
+   */
+  private async fetchTimeRemaining(): Promise<number | undefined> {
+    try {
+      const response = await fetch(this.sessionStatusUrl, {
+        credentials: 'same-origin',
+        headers: { Accept: 'application/json' },
+      });
+      if (response.status === 401) {
+        return 0;
+      }
+      if (!response.ok) {
+        return undefined;
+      }
+      const status: { signedIn: boolean; expiresIn: number } = await response.json();
+      return status.signedIn ? status.expiresIn * 1000 : 0;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async warnIfIdle(): Promise<void> {
+    const timeRemaining = await this.fetchTimeRemaining();
+    if (timeRemaining === 0) {
+      this.sessionEnded();
+      return;
+    }
+    // Activity in another tab has kept the session going
+    if (timeRemaining !== undefined && timeRemaining - SIGN_OUT_MARGIN > this.warningBefore) {
+      this.startTimers(timeRemaining);
+      return;
+    }
+
+    if (timeRemaining !== undefined) {
+      this.expiresAt = Date.now() + timeRemaining - SIGN_OUT_MARGIN;
+    }
+    this.open();
+  }
+
+  private open(): void {
+    this.previouslyFocused = document.activeElement;
+    this.updateCountdown();
+    this.module.hidden = false;
+    document.body.classList.add('app-timeout-warning--open');
+    this.dialog.focus();
+    this.countdownTimer = window.setInterval(() => this.updateCountdown(), 1000);
+  }
+
+  private close(): void {
+    window.clearInterval(this.countdownTimer);
+    this.module.hidden = true;
+    document.body.classList.remove('app-timeout-warning--open');
+    if (this.previouslyFocused instanceof HTMLElement) {
+      this.previouslyFocused.focus();
+    }
+  }
+
+  private updateCountdown(): void {
+    const secondsLeft = Math.max(0, Math.ceil((this.expiresAt - Date.now()) / 1000));
+    if (secondsLeft === 0) {
+      this.timeOut();
+      return;
+    }
+    this.countdown.textContent = formatTimeRemaining(secondsLeft);
+  }
+
+  private async timeOut(): Promise<void> {
+    window.clearInterval(this.countdownTimer);
+
+    const timeRemaining = await this.fetchTimeRemaining();
+    if (timeRemaining === 0) {
+      this.sessionEnded();
+      return;
+    }
+    // More than the margin is left only if the user has been active in another tab since the warning opened
+    if (timeRemaining !== undefined && timeRemaining > SIGN_OUT_MARGIN * 2) {
+      this.close();
+      this.startTimers(timeRemaining);
+      return;
+    }
+    this.signOut();
+  }
+
+  private async staySignedIn(): Promise<void> {
+    let timeRemaining: number;
+    try {
+      const response = await fetch(this.keepAliveUrl, {
+        method: 'POST',
+        credentials: 'same-origin',
+        headers: { 'CSRF-Token': this.csrfToken, Accept: 'application/json' },
+      });
+      if (!response.ok) {
+        throw new Error(`Keep-alive failed with status ${response.status}`);
+      }
+      const status: { expiresIn: number } = await response.json();
+      timeRemaining = status.expiresIn * 1000 || this.idleTimeout;
+    } catch {
+      // The session has already gone, so there is nothing to stay signed in to
+      this.sessionEnded();
+      return;
+    }
+
+    this.close();
+    this.startTimers(timeRemaining);
+  }
+
+  private signOut(): void {
+    window.clearInterval(this.countdownTimer);
+    // Signing out is a POST so it carries the CSRF token
+    this.signOutForm.submit();
+  }
+
+  private sessionEnded(): void {
+    window.clearInterval(this.countdownTimer);
+    // There is no session left to sign out of; reloading sends the user to sign in and back to this page
+    window.location.reload();
+  }
+
+  private handleKeydown(event: KeyboardEvent): void {
+    if (this.module.hidden) {
+      return;
+    }
+
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      this.staySignedIn();
+      return;
+    }
+
+    // Keep focus inside the dialog while it is open
+    if (event.key === 'Tab') {
+      const focusable = Array.from(this.dialog.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      if (event.shiftKey && (document.activeElement === first || document.activeElement === this.dialog)) {
+        event.preventDefault();
+        last.focus();
+      } else if (!event.shiftKey && document.activeElement === last) {
+        event.preventDefault();
+        first.focus();
+      }
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import config from 'config';
+
+export interface ServiceConfig {
+  url: string;
+  timeout: number;
+  health?: HealthCheckConfig;
+}
+
+export interface HealthCheckConfig {
+  /** Path of the backend's actuator-style health endpoint, relative to `url` */
+  path?: string;
+  /** How long a health result is reused before the backend is asked again, in milliseconds */
+  cacheTtl?: number;
+  /** Health responses slower than this are reported as DEGRADED, in milliseconds */
+  degradedLatency?: number;
+}
+
+/**
+ * Returns the backend API connection settings.
+ */
+export function getBackendConfig(): ServiceConfig {
+  return config.get<ServiceConfig>('services.backend');
+}
@@ -0,0 +1,9 @@
+import config from 'config';
+
+/**
+ * Reads a config value, falling back to the default only when the value is missing. Falsy values such as 0 or
+ * false are kept, so settings like `session.timeoutWarning: 0` mean what they say.
+ */
+export function getOrDefault<T>(key: string, defaultValue: T): T {
+  return config.has(key) ? (config.get<T>(key) ?? defaultValue) : defaultValue;
+}
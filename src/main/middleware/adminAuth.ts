@@ -0,0 +1,34 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+import { logger } from '../utils/logger';
+import { redactPath } from './security';
+
+import config from 'config';
+import { NextFunction, Request, Response } from 'express';
+
+function digest(value: string): Buffer {
+  // Hashing first gives equal-length buffers, so the comparison does not reveal the token's length
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Middleware to protect operational endpoints with the `admin.apiToken` bearer token.
+ * The endpoints are not available at all (404) unless a token is configured.
+ */
+export function requireAdminToken(req: Request, res: Response, next: NextFunction): void {
+  const expected = (config.has('admin.apiToken') && config.get<string>('admin.apiToken')) || '';
+  if (!expected) {
+    res.status(404).json({ error: 'Not found' });
+    return;
+  }
+
+  const provided = /^Bearer (.+)$/.exec(req.get('Authorization') || '')?.[1] || '';
+  if (!timingSafeEqual(digest(provided), digest(expected))) {
+    logger.warn('Rejected admin request', { path: redactPath(req.path), ip: req.ip });
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).json({ error: 'Unauthorised' });
+    return;
+  }
+
+  next();
+}
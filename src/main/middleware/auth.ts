@@ -1,4 +1,6 @@
 import { logger } from '../utils/logger';
+import { toSafeReturnPath } from '../utils/returnTo';
+import { redactPath } from './security';
 
 import { NextFunction, Request, Response } from 'express';
 
@@ -10,12 +12,17 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
   const token = req.session?.token;
 
   if (!token) {
-    logger.info('Unauthenticated access attempt', { path: req.path });
-    res.redirect('/auth/login');
+    logger.info('Unauthenticated access attempt', { path: redactPath(req.path) });
+    // Only page views can be resumed after sign-in, so form submissions are not remembered
+    if (req.session && req.method === 'GET') {
+      req.session.returnTo = toSafeReturnPath(req.originalUrl);
+    }
+    // A user who has given their password but not yet their one-time code is still signed out
+    res.redirect(req.session?.pendingTwoFactor ? '/auth/verify-code' : '/auth/login');
     return;
   }
 
-  logger.info('Authenticated request', { path: req.path });
+  logger.info('Authenticated request', { path: redactPath(req.path) });
   next();
 }
 
@@ -27,7 +34,7 @@ export function redirectIfAuthenticated(req: Request, res: Response, next: NextF
   const token = req.session?.token;
 
   if (token) {
-    logger.info('Authenticated user accessing auth page, redirecting', { path: req.path });
+    logger.info('Authenticated user accessing auth page, redirecting', { path: redactPath(req.path) });
     res.redirect('/tasks');
     return;
   }
@@ -42,6 +49,55 @@ export function clearAuth(req: Request, res: Response, next: NextFunction): void
   if (req.session) {
     delete req.session.token;
     delete req.session.email;
+    delete req.session.pendingTwoFactor;
   }
   next();
 }
+
+/**
+ * Returns the path to send the user back to once they have signed in again.
+ * Form submissions cannot be replayed, so for those it is the page the form was submitted from.
+ */
+function getReturnPath(req: Request): string | undefined {
+  if (req.method === 'GET') {
+    return toSafeReturnPath(req.originalUrl);
+  }
+
+  const referer = req.get('Referer');
+  if (!referer) {
+    return undefined;
+  }
+  try {
+    const url = new URL(referer);
+    return url.host === req.get('host') ? toSafeReturnPath(url.pathname + url.search) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Ends a session that can no longer be used, for example because the backend rejected its JWT
+ * (expired, or revoked by signing out elsewhere), and sends the user to sign in again, remembering where they were.
+ */
+export function expireSession(req: Request, res: Response): void {
+  logger.info('Session expired, signing out', { path: redactPath(req.path) });
+
+  if (!req.session) {
+    res.redirect('/auth/login');
+    return;
+  }
+
+  const returnTo = getReturnPath(req);
+  // Drop the credentials first so a failed regeneration cannot leave the rejected token in place
+  delete req.session.token;
+  delete req.session.email;
+  req.session.regenerate(err => {
+    if (err) {
+      logger.error('Session regeneration error', { error: err.message });
+    } else {
+      req.session.sessionExpired = true;
+      req.session.returnTo = returnTo;
+    }
+    res.redirect('/auth/login');
+  });
+}
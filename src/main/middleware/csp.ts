@@ -0,0 +1,22 @@
+import { randomBytes } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+
+import { NextFunction, Request, Response } from 'express';
+
+export const CSP_REPORT_PATH = '/csp-report';
+
+/**
+ * Middleware to generate a fresh nonce for every response. Templates expose it as `cspNonce`, which the GOV.UK
+ * template and the webpack includes add to their script and style tags.
+ */
+export function cspNonce(req: Request, res: Response, next: NextFunction): void {
+  res.locals.cspNonce = randomBytes(16).toString('base64');
+  next();
+}
+
+/**
+ * Helmet directive value allowing only tags carrying this response's nonce.
+ */
+export function nonceSource(req: IncomingMessage, res: ServerResponse): string {
+  return `'nonce-${(res as Response).locals.cspNonce}'`;
+}
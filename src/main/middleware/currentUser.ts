@@ -0,0 +1,127 @@
+import { getOrDefault } from '../config/getOrDefault';
+import { logger } from '../utils/logger';
+import { expireSession } from './auth';
+import { redactPath } from './security';
+
+import { NextFunction, Request, Response } from 'express';
+import jwt, { Algorithm, JwtPayload } from 'jsonwebtoken';
+
+/**
+ * The signed-in user, built from the claims of their JWT.
+ */
+export interface CurrentUser {
+  id: string;
+  name: string;
+  email: string;
+  roles: string[];
+  /** When the token expires, if it has an expiry */
+  expiresAt?: Date;
+}
+
+export interface JwtOptions {
+  /** Shared secret for HMAC signed tokens */
+  secret?: string;
+  /** PEM public key for RSA or EC signed tokens */
+  publicKey?: string;
+  algorithms: Algorithm[];
+  issuer?: string;
+  audience?: string;
+  /** Allowed clock difference with the backend, in seconds */
+  clockTolerance: number;
+}
+
+const DEFAULT_CLOCK_TOLERANCE = 30;
+
+/**
+ * Reads the JWT verification settings. Without a secret or public key, claims are decoded but their signature is
+ * not checked, which is only acceptable because the token never leaves the server-side session.
+ */
+export function getJwtOptions(): JwtOptions {
+  const publicKey = getOrDefault<string>('auth.jwt.publicKey', '') || undefined;
+  return {
+    secret: getOrDefault<string>('auth.jwt.secret', '') || undefined,
+    publicKey,
+    algorithms: getOrDefault<Algorithm[]>('auth.jwt.algorithms', publicKey ? ['RS256'] : ['HS256']),
+    issuer: getOrDefault<string>('auth.jwt.issuer', '') || undefined,
+    audience: getOrDefault<string>('auth.jwt.audience', '') || undefined,
+    clockTolerance: getOrDefault<number>('auth.jwt.clockTolerance', DEFAULT_CLOCK_TOLERANCE),
+  };
+}
+
+function toRoles(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((role): role is string => typeof role === 'string');
+  }
+  return typeof value === 'string' ? value.split(/[\s,]+/).filter(Boolean) : [];
+}
+
+function toName(claims: JwtPayload, email: string): string {
+  if (typeof claims.name === 'string' && claims.name.trim() !== '') {
+    return claims.name.trim();
+  }
+  const fullName = [claims.given_name, claims.family_name].filter(part => typeof part === 'string').join(' ');
+  return fullName.trim() || email;
+}
+
+/**
+ * Verifies a JWT and builds the current user from its claims. The user's name falls back to their email, and the
+ * email to the one they signed in with, for tokens that carry neither.
+ *
+ * @throws jwt.TokenExpiredError if the token has expired
+ * @throws jwt.JsonWebTokenError if the token is malformed, has a bad signature or is missing a subject
+ */
+export function toCurrentUser(token: string, options: JwtOptions, signInEmail = ''): CurrentUser {
+  const key = options.publicKey || options.secret;
+  const verifyOptions = {
+    algorithms: options.algorithms,
+    issuer: options.issuer,
+    audience: options.audience,
+    clockTolerance: options.clockTolerance,
+  };
+  const decoded = key ? jwt.verify(token, key, verifyOptions) : jwt.decode(token);
+
+  if (!decoded || typeof decoded === 'string' || !decoded.sub) {
+    throw new jwt.JsonWebTokenError('Token has no subject');
+  }
+  // jwt.decode does not check expiry, so unverified tokens are checked here
+  if (!key && decoded.exp && decoded.exp + options.clockTolerance <= Date.now() / 1000) {
+    throw new jwt.TokenExpiredError('jwt expired', new Date(decoded.exp * 1000));
+  }
+
+  const email = typeof decoded.email === 'string' ? decoded.email : signInEmail;
+  return {
+    id: decoded.sub,
+    name: toName(decoded, email),
+    email,
+    roles: toRoles(decoded.roles),
+    expiresAt: decoded.exp ? new Date(decoded.exp * 1000) : undefined,
+  };
+}
+
+/**
+ * Middleware that exposes the signed-in user as `req.user` and, for templates, `res.locals.user`.
+ * A token that has expired or cannot be verified ends the session here, before any call to the backend is made
+ * with it.
+ */
+export function currentUser(options: JwtOptions = getJwtOptions()) {
+  if (!options.secret && !options.publicKey) {
+    logger.warn('No JWT secret or public key configured, token signatures will not be verified');
+  }
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const token = req.session?.token;
+    if (!token) {
+      next();
+      return;
+    }
+
+    try {
+      req.user = toCurrentUser(token, options, req.session?.email);
+      res.locals.user = req.user;
+      next();
+    } catch (error) {
+      logger.info('Session token rejected', { reason: error.message, path: redactPath(req.path) });
+      expireSession(req, res);
+    }
+  };
+}
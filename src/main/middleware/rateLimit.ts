@@ -0,0 +1,267 @@
+import { createHash } from 'crypto';
+
+import { getOrDefault } from '../config/getOrDefault';
+import { logger } from '../utils/logger';
+import { redactPath } from './security';
+
+import { Application, Request, RequestHandler, Response } from 'express';
+import { MemoryStore, Options, Store, rateLimit } from 'express-rate-limit';
+import Redis from 'ioredis';
+import { RedisStore } from 'rate-limit-redis';
+
+export type RateLimitStoreDriver = 'memory' | 'redis';
+
+/** What a limiter counts requests by */
+export type LimiterKey = 'ip' | 'ipAndEmail' | 'user';
+
+export interface LimiterConfig {
+  windowMs: number;
+  max: number;
+  key?: LimiterKey;
+}
+
+export interface RateLimitConfig {
+  /** Budget per IP address for requests without a signed-in user */
+  anonymous: LimiterConfig;
+  /** Named limiters, such as `login` and `user` */
+  limiters: Record<string, LimiterConfig>;
+  /** Extra limiters applied to particular paths, as path => limiter name */
+  routes: Record<string, string>;
+  store: RateLimitStoreDriver;
+  redis: {
+    url: string;
+    prefix: string;
+  };
+}
+
+const FIFTEEN_MINUTES = 15 * 60 * 1000;
+
+const DEFAULT_LIMITERS: Record<string, LimiterConfig> = {
+  login: { windowMs: FIFTEEN_MINUTES, max: 10, key: 'ipAndEmail' },
+  user: { windowMs: FIFTEEN_MINUTES, max: 1000, key: 'user' },
+};
+
+const DEFAULT_ROUTES: Record<string, string> = {
+  '/auth/validate-email': 'login',
+  '/auth/authenticate': 'login',
+  '/auth/verify-code': 'login',
+  '/auth/resend-code': 'login',
+  '/auth/forgotten-password': 'login',
+  '/auth/reset-password': 'login',
+};
+
+/**
+ * Reads the rate limiting settings. Limiters and routes from config are merged over the defaults, so an
+ * environment only needs to list what it changes.
+ */
+export function getRateLimitConfig(): RateLimitConfig {
+  const limiters = getOrDefault<Record<string, Partial<LimiterConfig>>>('rateLimiting.limiters', {});
+  return {
+    anonymous: {
+      windowMs: getOrDefault<number>('rateLimiting.windowMs', FIFTEEN_MINUTES),
+      max: getOrDefault<number>('rateLimiting.max', 100),
+    },
+    limiters: Object.fromEntries(
+      [...new Set([...Object.keys(DEFAULT_LIMITERS), ...Object.keys(limiters)])].map(name => [
+        name,
+        { ...DEFAULT_LIMITERS[name], ...limiters[name] } as LimiterConfig,
+      ])
+    ),
+    routes: { ...DEFAULT_ROUTES, ...getOrDefault<Record<string, string>>('rateLimiting.routes', {}) },
+    store: getOrDefault<RateLimitStoreDriver>('rateLimiting.store', 'memory'),
+    redis: {
+      url: getOrDefault<string>(
+        'rateLimiting.redis.url',
+        getOrDefault<string>('session.redis.url', 'redis://localhost:6379')
+      ),
+      prefix: getOrDefault<string>('rateLimiting.redis.prefix', 'rl:'),
+    },
+  };
+}
+
+// One client per Redis URL, so the limiters and attempt counters share a connection
+const redisClients = new Map<string, Redis>();
+
+function getRedisClient(url: string): Redis {
+  let client = redisClients.get(url);
+  if (!client) {
+    client = new Redis(url);
+    client.on('error', (error: Error) => {
+      logger.error('Redis rate limit store error', { error: error.message });
+    });
+    redisClients.set(url, client);
+  }
+  return client;
+}
+
+/**
+ * Returns a factory for the counter store of each limiter. With `redis`, counters are shared between replicas so
+ * limits hold however requests are balanced; `memory` is per process and only suitable for a single instance.
+ *
+ * @throws Error if the driver is not recognised
+ */
+export function createRateLimitStoreFactory(rateLimitConfig: RateLimitConfig): (name: string) => Store {
+  switch (rateLimitConfig.store) {
+    case 'memory':
+      return () => new MemoryStore();
+
+    case 'redis': {
+      const client = getRedisClient(rateLimitConfig.redis.url);
+      return name =>
+        new RedisStore({
+          prefix: `${rateLimitConfig.redis.prefix}${name}:`,
+          sendCommand: (command: string, ...args: string[]) =>
+            client.call(command, ...args) as Promise<number | string>,
+        });
+    }
+
+    default:
+      throw new Error(`Unknown rate limit store "${rateLimitConfig.store}". Expected one of: memory, redis`);
+  }
+}
+
+function hash(value: string): string {
+  // Keys end up in the shared store, so emails are hashed rather than stored in clear
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function isSignedIn(req: Request): boolean {
+  return !!req.session?.token;
+}
+
+/**
+ * Key for the login limiter: the client IP together with the email being tried, so one person's mistakes do not
+ * lock out everyone else behind the same court building NAT.
+ */
+export function loginKey(req: Request): string {
+  // Later steps post no email, so it is read from the session the earlier steps left behind
+  const email = String(
+    req.body?.email ||
+      req.session?.tempEmail ||
+      req.session?.pendingTwoFactor?.email ||
+      req.session?.passwordResetEmail ||
+      ''
+  )
+    .trim()
+    .toLowerCase();
+  return `${req.ip}:${hash(email)}`;
+}
+
+/**
+ * Key for the user limiter: the signed-in user's email, falling back to their token.
+ */
+export function userKey(req: Request): string {
+  return hash(req.session?.email || req.session?.token || '');
+}
+
+const KEY_GENERATORS: Record<LimiterKey, ((req: Request) => string) | undefined> = {
+  // express-rate-limit keys by IP when no generator is given
+  ip: undefined,
+  ipAndEmail: loginKey,
+  user: userKey,
+};
+
+export interface AttemptCounter {
+  /** Counts an attempt before it is checked, returning how many have been made including this one */
+  reserve(key: string): Promise<number>;
+  /** Gives back an attempt that could not be checked, such as when the backend is down. Never throws. */
+  release(key: string): Promise<void>;
+}
+
+/**
+ * Counts attempts at a single secret, such as the one-time code for a sign-in, in the rate limit store. The store
+ * increments atomically, so parallel submissions cannot each use the same remaining attempt as they could with a
+ * count kept in the session.
+ */
+export function createAttemptCounter(
+  name: string,
+  windowMs: number,
+  rateLimitConfig: RateLimitConfig = getRateLimitConfig()
+): AttemptCounter {
+  const store = createRateLimitStoreFactory(rateLimitConfig)(name);
+  store.init?.({ windowMs } as Options);
+
+  return {
+    reserve: async key => (await store.increment(hash(key))).totalHits,
+    release: async key => {
+      try {
+        await store.decrement(hash(key));
+      } catch (error) {
+        // Losing the attempt is better than failing the request
+        logger.warn('Could not release attempt', { counter: name, error: error.message });
+      }
+    },
+  };
+}
+
+function createLimiter(
+  name: string,
+  limiterConfig: LimiterConfig,
+  store: Store,
+  skip?: (req: Request) => boolean
+): RequestHandler {
+  return rateLimit({
+    windowMs: limiterConfig.windowMs,
+    max: limiterConfig.max,
+    standardHeaders: true,
+    legacyHeaders: false,
+    store,
+    keyGenerator: KEY_GENERATORS[limiterConfig.key || 'ip'],
+    skip,
+    handler: (req: Request, res: Response) => {
+      logger.warn('Rate limit exceeded', { limiter: name, ip: req.ip, path: redactPath(req.path) });
+      res.status(429).render('error', {
+        message: 'Too many requests, please try again later.',
+        error: {},
+      });
+    },
+  });
+}
+
+/**
+ * Mounts the rate limiters. Must run after the session and body parsers, which the keys are built from.
+ * - Signed-out requests share a budget per IP address (`anonymous`)
+ * - Signed-in requests have a budget per user instead (`user`), so people behind one NAT do not share a limit
+ * - Paths listed in `rateLimiting.routes` are also counted against their named limiter, such as `login`
+ * Platform probes poll the health and info endpoints and are never throttled.
+ *
+ * @throws Error if a route refers to a limiter that is not configured
+ */
+export function applyRateLimiting(app: Application, rateLimitConfig: RateLimitConfig = getRateLimitConfig()): void {
+  const createStore = createRateLimitStoreFactory(rateLimitConfig);
+  const isProbe = (req: Request) => req.path.startsWith('/health') || req.path === '/info';
+
+  app.use(
+    createLimiter(
+      'anonymous',
+      rateLimitConfig.anonymous,
+      createStore('anonymous'),
+      req => isProbe(req) || isSignedIn(req)
+    )
+  );
+  app.use(
+    createLimiter(
+      'user',
+      { ...rateLimitConfig.limiters.user, key: 'user' },
+      createStore('user'),
+      req => isProbe(req) || !isSignedIn(req)
+    )
+  );
+
+  // Each named limiter is created once, so every path it guards shares the same counters
+  const routeLimiters = new Map<string, RequestHandler>();
+  Object.entries(rateLimitConfig.routes).forEach(([path, name]) => {
+    const limiterConfig = rateLimitConfig.limiters[name];
+    if (!limiterConfig) {
+      throw new Error(`Rate limit route "${path}" refers to unknown limiter "${name}"`);
+    }
+    if (!routeLimiters.has(name)) {
+      // Only submissions count, so showing a page again after a failed attempt does not use up the budget
+      routeLimiters.set(
+        name,
+        createLimiter(name, limiterConfig, createStore(name), req => req.method === 'GET')
+      );
+    }
+    app.use(path, routeLimiters.get(name) as RequestHandler);
+  });
+}
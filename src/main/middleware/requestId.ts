@@ -0,0 +1,25 @@
+import { randomUUID } from 'crypto';
+
+import { runWithRequestContext } from '../utils/requestContext';
+
+import { NextFunction, Request, Response } from 'express';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// IDs from upstream proxies are reused, but only if they are safe to write to logs and headers
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Gives every request an ID, reusing the caller's `X-Request-Id` when it is valid.
+ * The ID is echoed in the response, exposed to templates as `requestId`, and held in the request context so that
+ * log lines and backend calls made while handling the request include it.
+ */
+export function requestId(req: Request, res: Response, next: NextFunction): void {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const id = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+
+  res.setHeader(REQUEST_ID_HEADER, id);
+  res.locals.requestId = id;
+
+  runWithRequestContext({ requestId: id }, next);
+}
@@ -1,6 +1,38 @@
 import { logger } from '../utils/logger';
 
-import { NextFunction, Request, Response } from 'express';
+import config from 'config';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+
+export interface SecurityOptions {
+  requestLogging: boolean;
+  securityHeaders: boolean;
+  contentTypeValidation: boolean;
+  suspiciousActivity: {
+    enabled: boolean;
+    /** Log suspicious requests without blocking them, to tune the rules against real traffic */
+    reportOnly: boolean;
+  };
+}
+
+function getFlag(key: string, defaultValue: boolean): boolean {
+  const value = config.has(key) ? config.get<unknown>(key) : undefined;
+  return typeof value === 'boolean' ? value : defaultValue;
+}
+
+/**
+ * Reads which security middleware to mount from `security.*` config. Everything is on and blocking by default.
+ */
+export function getSecurityOptions(): SecurityOptions {
+  return {
+    requestLogging: getFlag('security.requestLogging', true),
+    securityHeaders: getFlag('security.securityHeaders', true),
+    contentTypeValidation: getFlag('security.contentTypeValidation', true),
+    suspiciousActivity: {
+      enabled: getFlag('security.suspiciousActivity.enabled', true),
+      reportOnly: getFlag('security.suspiciousActivity.reportOnly', false),
+    },
+  };
+}
 
 /**
  * Sanitize user input to prevent XSS attacks
@@ -13,6 +45,17 @@ export function sanitizeInput(input: string): string {
     .trim();
 }
 
+// Paths that carry a secret, such as a password reset token, as their last segment
+const SECRET_PATH_PATTERN = /^(\/auth\/reset-password\/)[^/]+/;
+
+/**
+ * Returns the path with any secret it carries replaced, so it can be logged. Log redaction only looks at keys, not
+ * at the contents of path strings.
+ */
+export function redactPath(path: string): string {
+  return path.replace(SECRET_PATH_PATTERN, '$1[REDACTED]');
+}
+
 /**
  * Middleware to log all incoming requests
  */
@@ -23,7 +66,7 @@ export function requestLogger(req: Request, res: Response, next: NextFunction):
     const duration = Date.now() - start;
     logger.info('HTTP Request', {
       method: req.method,
-      path: req.path,
+      path: redactPath(req.path),
       statusCode: res.statusCode,
       duration,
       ip: req.ip,
@@ -34,25 +77,37 @@ export function requestLogger(req: Request, res: Response, next: NextFunction):
   next();
 }
 
+function hasBody(req: Request): boolean {
+  const contentLength = req.get('content-length');
+  return !!req.get('transfer-encoding') || (!!contentLength && contentLength !== '0');
+}
+
 /**
- * Middleware to validate content type for POST/PUT requests
+ * Middleware to validate content type for POST/PUT requests.
+ * Requests without a body, such as the session keep-alive, do not need a content type.
  */
 export function validateContentType(req: Request, res: Response, next: NextFunction): void {
-  if (['POST', 'PUT', 'PATCH'].includes(req.method)) {
+  if (['POST', 'PUT', 'PATCH'].includes(req.method) && hasBody(req)) {
     const contentType = req.get('content-type');
 
     if (!contentType) {
-      logger.warn('Request missing content-type header', { method: req.method, path: req.path });
+      logger.warn('Request missing content-type header', { method: req.method, path: redactPath(req.path) });
       res.status(400).json({ error: 'Content-Type header is required' });
       return;
     }
 
-    const validTypes = ['application/json', 'application/x-www-form-urlencoded', 'multipart/form-data'];
+    const validTypes = [
+      'application/json',
+      'application/x-www-form-urlencoded',
+      'multipart/form-data',
+      'application/csp-report',
+      'application/reports+json',
+    ];
 
     const isValid = validTypes.some(type => contentType.includes(type));
 
     if (!isValid) {
-      logger.warn('Invalid content-type', { contentType, method: req.method, path: req.path });
+      logger.warn('Invalid content-type', { contentType, method: req.method, path: redactPath(req.path) });
       res.status(415).json({ error: 'Unsupported Media Type' });
       return;
     }
@@ -83,34 +138,123 @@ export function securityHeaders(req: Request, res: Response, next: NextFunction)
   next();
 }
 
+interface SuspiciousPattern {
+  name: string;
+  pattern: RegExp;
+}
+
+// Directory traversal is only meaningful in the URL, so free text such as "see pages 3..5" is not checked for it
+const URL_PATTERNS: SuspiciousPattern[] = [
+  { name: 'path-traversal', pattern: /(^|[/\\])\.\.([/\\]|$)|%2e%2e|%00/i },
+  { name: 'system-path', pattern: /\/(etc|bin|proc)\// },
+];
+
+// Input patterns match the structure of an attack rather than single keywords, so legal text such as
+// "Update the select committee bundle" or "Drop the union claim" is accepted
+const INPUT_PATTERNS: SuspiciousPattern[] = [
+  { name: 'sql-union', pattern: /['")]\s*union(\s+all)?\s+select\s+(\*|null\b|\d|@@|\w+\s*,)/i },
+  { name: 'sql-tautology', pattern: /['"]\s*or\s+['"]?(\w+)['"]?\s*=\s*['"]?\1\b/i },
+  { name: 'script-tag', pattern: /<\s*(script|iframe|object|embed)\b/i },
+  { name: 'event-handler', pattern: /<[^>]+\son\w+\s*=/i },
+];
+
+// Case notes often put "; delete from" or "; insert into" after a bracket or quote, so stacked queries are not looked
+// for in fields that hold prose
+const PROSE_FIELD = /title|description|reason|note|comment/i;
+
+const STRUCTURED_FIELD_PATTERNS: SuspiciousPattern[] = [
+  {
+    name: 'sql-stacked-query',
+    pattern:
+      /['")]\s*;\s*(drop\s+(table|database)|delete\s+from|truncate\s+table|alter\s+table|insert\s+into|update\s+\w+\s+set|exec(ute)?\s)/i,
+  },
+];
+
+// A javascript: URL is only dangerous where a URL is expected, so a title such as "JavaScript: fix listings widget"
+// is accepted
+const URL_FIELD = /url|uri|href|link|redirect|return/i;
+
+const URL_FIELD_PATTERNS: SuspiciousPattern[] = [{ name: 'javascript-url', pattern: /^\s*javascript:/i }];
+
+// Passwords may legitimately contain any characters, and are never rendered or used in queries
+const UNCHECKED_FIELDS = /password|_csrf/i;
+
+function collectInputs(value: unknown, key = '', inputs: { field: string; value: string }[] = []) {
+  if (typeof value === 'string') {
+    if (!UNCHECKED_FIELDS.test(key)) {
+      inputs.push({ field: key, value });
+    }
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([nestedKey, nested]) => collectInputs(nested, nestedKey, inputs));
+  }
+  return inputs;
+}
+
+function matchPattern(
+  patterns: SuspiciousPattern[],
+  inputs: { field?: string; value: string }[]
+): { name: string; field?: string } | undefined {
+  for (const input of inputs) {
+    const match = patterns.find(({ pattern }) => pattern.test(input.value));
+    if (match) {
+      return { name: match.name, field: input.field };
+    }
+  }
+  return undefined;
+}
+
+function findSuspiciousPattern(req: Request): { name: string; field?: string } | undefined {
+  const queryInputs = collectInputs(req.query);
+  const bodyInputs = collectInputs(req.body);
+  return (
+    matchPattern([...URL_PATTERNS, ...INPUT_PATTERNS, ...STRUCTURED_FIELD_PATTERNS], [{ value: req.path }]) ||
+    matchPattern([...URL_PATTERNS, ...INPUT_PATTERNS], queryInputs) ||
+    matchPattern(INPUT_PATTERNS, bodyInputs) ||
+    matchPattern(
+      STRUCTURED_FIELD_PATTERNS,
+      [...queryInputs, ...bodyInputs].filter(input => !PROSE_FIELD.test(input.field))
+    ) ||
+    matchPattern(
+      URL_FIELD_PATTERNS,
+      [...queryInputs, ...bodyInputs].filter(input => URL_FIELD.test(input.field))
+    )
+  );
+}
+
 /**
- * Middleware to detect and block suspicious requests
+ * Creates middleware to detect suspicious requests, either blocking them with a 403 or, in report-only mode,
+ * logging them and letting them through.
  */
-export function detectSuspiciousActivity(req: Request, res: Response, next: NextFunction): void {
-  const suspiciousPatterns = [
-    /(\.\.|\/etc\/|\/bin\/)/i, // Path traversal
-    /(union|select|insert|update|delete|drop|exec|script)/i, // SQL injection
-    /(<script|javascript:|onerror=|onload=)/i, // XSS attempts
-  ];
-
-  const checkString = `${req.path}${JSON.stringify(req.query)}${JSON.stringify(req.body)}`;
-
-  for (const pattern of suspiciousPatterns) {
-    if (pattern.test(checkString)) {
-      logger.warn('Suspicious activity detected', {
-        pattern: pattern.source,
-        path: req.path,
-        ip: req.ip,
-        userAgent: req.get('user-agent'),
-      });
-
-      res.status(403).render('error', {
-        message: 'Forbidden: Suspicious activity detected',
-        error: {},
-      });
+export function suspiciousActivityDetector(options: { reportOnly: boolean }): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const match = findSuspiciousPattern(req);
+    if (!match) {
+      next();
       return;
     }
-  }
 
-  next();
+    logger.warn('Suspicious activity detected', {
+      pattern: match.name,
+      field: match.field,
+      reportOnly: options.reportOnly,
+      path: redactPath(req.path),
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    if (options.reportOnly) {
+      next();
+      return;
+    }
+
+    res.status(403).render('error', {
+      message: 'Forbidden: Suspicious activity detected',
+      error: {},
+    });
+  };
 }
+
+/**
+ * Middleware to detect and block suspicious requests
+ */
+export const detectSuspiciousActivity = suspiciousActivityDetector({ reportOnly: false });
@@ -0,0 +1,60 @@
+import { getOrDefault } from '../config/getOrDefault';
+import { logger } from '../utils/logger';
+import { expireSession } from './auth';
+import { redactPath } from './security';
+
+import { NextFunction, Request, Response } from 'express';
+
+export interface SessionTimeoutOptions {
+  /** Inactivity after which the session ends, in milliseconds */
+  idleTimeout: number;
+  /** How long before the idle timeout the warning is shown, in milliseconds; 0 turns the warning off */
+  warningBefore: number;
+  /** Longest a session may last however active the user is, in milliseconds */
+  maxAge: number;
+}
+
+const DEFAULT_IDLE_TIMEOUT = 1000 * 60 * 20; // 20 minutes
+const DEFAULT_WARNING_BEFORE = 1000 * 60 * 2; // 2 minutes
+const DEFAULT_MAX_AGE = 1000 * 60 * 60 * 24; // 24 hours
+
+/**
+ * Reads the session timeout settings. The warning is never shown before the session starts.
+ */
+export function getSessionTimeoutOptions(): SessionTimeoutOptions {
+  const idleTimeout = getOrDefault('session.idleTimeout', DEFAULT_IDLE_TIMEOUT);
+
+  return {
+    idleTimeout,
+    warningBefore: Math.min(getOrDefault('session.timeoutWarning', DEFAULT_WARNING_BEFORE), idleTimeout),
+    maxAge: getOrDefault('session.maxAge', DEFAULT_MAX_AGE),
+  };
+}
+
+/**
+ * Middleware that ends sessions older than `maxAge` and exposes the idle timeout to templates,
+ * so signed-in pages can warn the user before they are signed out.
+ * The idle timeout itself is enforced by the rolling session cookie.
+ */
+export function sessionTimeout(options: SessionTimeoutOptions) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.session?.token) {
+      next();
+      return;
+    }
+
+    if (req.session.signedInAt && Date.now() - req.session.signedInAt > options.maxAge) {
+      logger.info('Session reached its maximum age', { path: redactPath(req.path) });
+      expireSession(req, res);
+      return;
+    }
+
+    if (options.warningBefore > 0) {
+      res.locals.sessionTimeout = {
+        idleTimeout: Math.floor(options.idleTimeout / 1000),
+        warningBefore: Math.floor(options.warningBefore / 1000),
+      };
+    }
+    next();
+  };
+}
@@ -0,0 +1,82 @@
+import { getOrDefault } from '../../config/getOrDefault';
+import { logger } from '../../utils/logger';
+
+import RedisStore from 'connect-redis';
+import session from 'express-session';
+import Redis from 'ioredis';
+import FileStoreFactory from 'session-file-store';
+
+export type SessionStoreDriver = 'memory' | 'file' | 'redis';
+
+export interface SessionStoreConfig {
+  driver: SessionStoreDriver;
+  /** Session lifetime in milliseconds, also used as the store TTL */
+  maxAge: number;
+  file: {
+    path: string;
+  };
+  redis: {
+    url: string;
+    prefix: string;
+  };
+}
+
+const DEFAULT_MAX_AGE = 1000 * 60 * 60 * 24; // 24 hours
+
+const SESSION_STORE_DRIVERS: SessionStoreDriver[] = ['memory', 'file', 'redis'];
+
+/**
+ * Reads the session store settings, falling back to an in-memory store with a 24 hour lifetime.
+ */
+export function getSessionStoreConfig(): SessionStoreConfig {
+  return {
+    driver: getOrDefault<SessionStoreDriver>('session.store', 'memory'),
+    maxAge: getOrDefault<number>('session.maxAge', DEFAULT_MAX_AGE),
+    file: {
+      path: getOrDefault<string>('session.file.path', '.sessions'),
+    },
+    redis: {
+      url: getOrDefault<string>('session.redis.url', 'redis://localhost:6379'),
+      prefix: getOrDefault<string>('session.redis.prefix', 'sess:'),
+    },
+  };
+}
+
+/**
+ * Creates the express-session store for the configured driver.
+ * The memory store loses sessions on restart and cannot be shared between replicas, so it is only
+ * suitable for tests; use `file` for local development and `redis` anywhere else.
+ *
+ * @throws Error if the driver is not recognised
+ */
+export function createSessionStore(storeConfig: SessionStoreConfig): session.Store {
+  const ttlSeconds = Math.ceil(storeConfig.maxAge / 1000);
+
+  switch (storeConfig.driver) {
+    case 'memory':
+      return new session.MemoryStore();
+
+    case 'file': {
+      const FileStore = FileStoreFactory(session);
+      return new FileStore({
+        path: storeConfig.file.path,
+        ttl: ttlSeconds,
+        retries: 0,
+        logFn: (message: string) => logger.debug('File session store', { message }),
+      });
+    }
+
+    case 'redis': {
+      const client = new Redis(storeConfig.redis.url);
+      client.on('error', (error: Error) => {
+        logger.error('Redis session store error', { error: error.message });
+      });
+      return new RedisStore({ client, prefix: storeConfig.redis.prefix, ttl: ttlSeconds });
+    }
+
+    default:
+      throw new Error(
+        `Unknown session store "${storeConfig.driver}". Expected one of: ${SESSION_STORE_DRIVERS.join(', ')}`
+      );
+  }
+}
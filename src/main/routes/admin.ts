@@ -0,0 +1,41 @@
+import { requireAdminToken } from '../middleware/adminAuth';
+import { isLogLevel } from '../utils/logTransports';
+import { logger } from '../utils/logger';
+
+import { Application, Request, Response } from 'express';
+
+export default function (app: Application): void {
+  /**
+   * GET /admin/log-level
+   * Show the current level of each log transport
+   */
+  app.get('/admin/log-level', requireAdminToken, (req: Request, res: Response) => {
+    res.json({ levels: logger.getLevels() });
+  });
+
+  /**
+   * PUT /admin/log-level
+   * Change the log level without a restart, for every transport or just the named one.
+   * The change lasts until the process restarts.
+   */
+  app.put('/admin/log-level', requireAdminToken, (req: Request, res: Response) => {
+    const { level, transport } = req.body || {};
+
+    if (!isLogLevel(level)) {
+      res.status(400).json({ error: 'level must be one of debug, info, warn or error' });
+      return;
+    }
+    // Own properties only, so names such as "toString" are not mistaken for transports
+    if (
+      transport !== undefined &&
+      (typeof transport !== 'string' || !Object.prototype.hasOwnProperty.call(logger.getLevels(), transport))
+    ) {
+      res.status(400).json({ error: `Unknown log transport "${transport}"` });
+      return;
+    }
+
+    logger.setLevel(level, transport);
+    logger.warn('Log level changed', { level, transport: transport || 'all', ip: req.ip });
+    res.json({ levels: logger.getLevels() });
+  });
+}
@@ -1,18 +1,98 @@
+import { getBackendConfig } from '../config/backend';
 import { redirectIfAuthenticated } from '../middleware/auth';
-import { AuthenticationService } from '../services/authenticationService';
+import { createAttemptCounter } from '../middleware/rateLimit';
+import { AuthenticationError, AuthenticationService } from '../services/authenticationService';
 import { logger } from '../utils/logger';
+import { MIN_PASSWORD_LENGTH, checkPasswordStrength } from '../utils/passwordStrength';
+import { formatWait, parseRetryAfter } from '../utils/retryAfter';
+import { toSafeReturnPath } from '../utils/returnTo';
 
 import config from 'config';
 import { Application, Request, Response } from 'express';
 
-interface ServiceConfig {
-  url: string;
-  timeout: number;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const ONE_TIME_CODE_PATTERN = /^\d{6}$/;
+
+const DEFAULT_MAX_CODE_ATTEMPTS = 5;
+
+// Longer than a one-time code stays valid, so a code cannot outlive the count of guesses at it
+const CODE_ATTEMPT_WINDOW = 60 * 60 * 1000;
+
+const TOO_MANY_CODE_ATTEMPTS =
+  'You entered an incorrect security code too many times. Sign in again to get a new code.';
+
+function getMaxCodeAttempts(): number {
+  return (
+    (config.has('auth.twoFactor.maxAttempts') && config.get<number>('auth.twoFactor.maxAttempts')) ||
+    DEFAULT_MAX_CODE_ATTEMPTS
+  );
+}
+
+/**
+ * Builds the message for a failed sign-in step. Lockouts and rate limits say how long to wait when the backend sends
+ * Retry-After, and that wait is remembered in the session so the page can hold back the submit button until then.
+ */
+function toSignInError(req: Request, error: unknown): string | undefined {
+  if (!(error instanceof AuthenticationError) || (error.statusCode !== 429 && !error.accountLocked)) {
+    return undefined;
+  }
+
+  const retryAfter = parseRetryAfter(error.retryAfter);
+  if (retryAfter) {
+    req.session!.signInRetryAt = Date.now() + retryAfter * 1000;
+  }
+  const wait = retryAfter ? `Try again in ${formatWait(retryAfter)}.` : undefined;
+
+  return error.accountLocked
+    ? `Your account has been locked after too many failed sign-in attempts. ${wait || 'Contact your administrator to unlock it.'}`
+    : `Too many attempts. ${wait || 'Please try again later.'}`;
+}
+
+/**
+ * Stores the JWT in the session and sends the user on to the page they first asked for.
+ */
+function completeSignIn(req: Request, res: Response, email: string, token: string): void {
+  req.session!.token = token;
+  req.session!.email = email;
+  req.session!.signedInAt = Date.now();
+  delete req.session!.tempEmail;
+  delete req.session!.signInRetryAt;
+  delete req.session!.pendingTwoFactor;
+
+  // Re-checked here so a stored value can never become an open redirect
+  const returnTo = toSafeReturnPath(req.session!.returnTo) || '/tasks';
+  delete req.session!.returnTo;
+
+  logger.info('Authentication successful, redirecting', { email, returnTo });
+  res.redirect(returnTo);
+}
+
+function renderResetLinkExpired(res: Response): void {
+  res.status(404).render('auth/reset-link-expired', { pageTitle: 'Your password reset link has expired' });
+}
+
+/**
+ * Seconds left before sign-in can be tried again, if the backend asked the user to wait.
+ */
+function secondsUntilRetry(req: Request): number | undefined {
+  const retryAt = req.session?.signInRetryAt;
+  if (!retryAt) {
+    return undefined;
+  }
+
+  const seconds = Math.ceil((retryAt - Date.now()) / 1000);
+  if (seconds <= 0) {
+    delete req.session!.signInRetryAt;
+    return undefined;
+  }
+  return seconds;
 }
 
 export default function (app: Application): void {
-  const backendUrl = config.get<ServiceConfig>('services.backend').url;
+  const backendUrl = getBackendConfig().url;
   const authService = new AuthenticationService(backendUrl);
+  const codeAttempts = createAttemptCounter('code-attempts', CODE_ATTEMPT_WINDOW);
 
   /**
    * GET /auth/login
@@ -25,9 +105,14 @@ export default function (app: Application): void {
       errors: req.session?.errors || [],
       email: req.session?.tempEmail || '',
       csrfToken: req.csrfToken?.() || '',
+      sessionExpired: req.session?.sessionExpired,
+      successMessage: req.session?.successMessage,
+      retryAfter: secondsUntilRetry(req),
     });
-    // Clear any previous errors
+    // Clear any previous errors and notifications
     delete req.session?.errors;
+    delete req.session?.sessionExpired;
+    delete req.session?.successMessage;
   });
 
   /**
@@ -46,6 +131,7 @@ export default function (app: Application): void {
       if (result.success && result.emailValidated) {
         // Store email temporarily in session and redirect to password page
         req.session!.tempEmail = email;
+        delete req.session!.signInRetryAt;
         logger.info('Email validated successfully, redirecting to password page', { email });
         res.redirect('/auth/password');
       } else {
@@ -62,10 +148,7 @@ export default function (app: Application): void {
     } catch (error: any) {
       logger.error('Email validation error', { error: error.message, email });
 
-      const errorMessage =
-        error.statusCode === 429
-          ? 'Too many attempts. Please try again later.'
-          : error.message || 'An error occurred. Please try again.';
+      const errorMessage = toSignInError(req, error) || error.message || 'An error occurred. Please try again.';
 
       req.session!.errors = [
         {
@@ -96,6 +179,7 @@ export default function (app: Application): void {
       email,
       errors: req.session?.errors || [],
       csrfToken: req.csrfToken?.() || '',
+      retryAfter: secondsUntilRetry(req),
     });
     // Clear any previous errors
     delete req.session?.errors;
@@ -121,22 +205,29 @@ export default function (app: Application): void {
       // Authenticate with backend
       const result = await authService.authenticate(email, password);
 
-      // Store token in session
-      req.session!.token = result.token;
-      req.session!.email = email;
-      delete req.session!.tempEmail;
+      if (result.twoFactorRequired && result.challengeToken) {
+        // No token yet, so requireAuth still treats the user as signed out until the code is verified
+        req.session!.pendingTwoFactor = {
+          email,
+          challengeToken: result.challengeToken,
+          method: result.twoFactorMethod || 'totp',
+        };
+        delete req.session!.tempEmail;
+        delete req.session!.signInRetryAt;
+        logger.info('Password accepted, one-time code required', { email, method: result.twoFactorMethod });
+        res.redirect('/auth/verify-code');
+        return;
+      }
 
-      logger.info('Authentication successful, redirecting to tasks', { email });
-      res.redirect('/tasks');
+      completeSignIn(req, res, email, result.token as string);
     } catch (error: any) {
       logger.error('Authentication error', { error: error.message, email });
 
       const errorMessage =
-        error.statusCode === 429
-          ? 'Too many attempts. Please try again later.'
-          : error.statusCode === 401
-            ? 'Invalid password. Please try again.'
-            : error.message || 'An error occurred. Please try again.';
+        toSignInError(req, error) ||
+        (error.statusCode === 401
+          ? 'Invalid password. Please try again.'
+          : error.message || 'An error occurred. Please try again.');
 
       req.session!.errors = [
         {
@@ -150,9 +241,26 @@ export default function (app: Application): void {
 
   /**
    * GET /auth/logout
+   * Ask the user to confirm signing out. Signing out itself needs a POST, so links and prefetches cannot trigger it.
+   */
+  app.get('/auth/logout', (req: Request, res: Response) => {
+    if (!req.session?.token) {
+      res.redirect('/auth/login');
+      return;
+    }
+
+    res.render('auth/logout', {
+      pageTitle: 'Sign out',
+      email: req.session.email,
+      csrfToken: req.csrfToken?.() || '',
+    });
+  });
+
+  /**
+   * POST /auth/logout
    * Logout user and clear session
    */
-  app.get('/auth/logout', async (req: Request, res: Response) => {
+  app.post('/auth/logout', async (req: Request, res: Response) => {
     const token = req.session?.token;
 
     if (token) {
@@ -175,6 +283,36 @@ export default function (app: Application): void {
     });
   });
 
+  /**
+   * POST /auth/keep-alive
+   * Called by the timeout warning's "Stay signed in" button. Any response rolls the session cookie forward.
+   */
+  app.post('/auth/keep-alive', (req: Request, res: Response) => {
+    if (!req.session?.token) {
+      res.status(401).json({ signedIn: false });
+      return;
+    }
+
+    logger.info('Session kept alive');
+    res.json({ signedIn: true, expiresIn: Math.ceil((req.session.cookie.maxAge || 0) / 1000) });
+  });
+
+  /**
+   * GET /auth/session-status
+   * Lets the timeout warning check how long the session really has left, as activity in another tab may have
+   * extended it. Unlike every other request, checking does not count as activity.
+   */
+  app.get('/auth/session-status', (req: Request, res: Response) => {
+    if (!req.session?.token) {
+      res.status(401).json({ signedIn: false });
+      return;
+    }
+
+    // express-session touches the session as the response is sent, which would roll the expiry forward
+    req.session.touch = () => req.session;
+    res.json({ signedIn: true, expiresIn: Math.floor((req.session.cookie.maxAge || 0) / 1000) });
+  });
+
   /**
    * POST /auth/back-to-email
    * Allow user to go back from password page to email page
@@ -182,6 +320,332 @@ export default function (app: Application): void {
   app.post('/auth/back-to-email', (req: Request, res: Response) => {
     logger.info('User going back to email page');
     delete req.session?.tempEmail;
+    delete req.session?.pendingTwoFactor;
+    // A lockout applies to the account that was tried, not to whichever email is entered next
+    delete req.session?.signInRetryAt;
+    res.redirect('/auth/login');
+  });
+
+  /**
+   * GET /auth/forgotten-password
+   * Ask for the email address to send a password reset link to
+   */
+  app.get('/auth/forgotten-password', redirectIfAuthenticated, (req: Request, res: Response) => {
+    res.render('auth/forgotten-password', {
+      pageTitle: 'Reset your password',
+      errors: req.session?.errors || [],
+      email: req.session?.tempEmail || '',
+      csrfToken: req.csrfToken?.() || '',
+    });
+    delete req.session?.errors;
+  });
+
+  /**
+   * POST /auth/forgotten-password
+   * Request a reset link. Whatever the backend says about the email, the user sees the same confirmation, so this
+   * page cannot be used to find out who has an account.
+   */
+  app.post('/auth/forgotten-password', redirectIfAuthenticated, async (req: Request, res: Response) => {
+    const email = typeof req.body.email === 'string' ? req.body.email.trim() : '';
+
+    if (!EMAIL_PATTERN.test(email)) {
+      req.session!.errors = [
+        {
+          text: email
+            ? 'Enter an email address in the correct format, like name@example.com'
+            : 'Enter your email address',
+          href: '#email',
+        },
+      ];
+      res.redirect('/auth/forgotten-password');
+      return;
+    }
+
+    try {
+      await authService.requestPasswordReset(email);
+    } catch (error) {
+      if (!(error instanceof AuthenticationError)) {
+        // The backend could not be reached, which is the same for every email, so it is safe to say so
+        logger.error('Password reset request error', { error: error.message });
+        req.session!.errors = [
+          { text: 'Sorry, there is a problem with the service. Try again later.', href: '#email' },
+        ];
+        res.redirect('/auth/forgotten-password');
+        return;
+      }
+      logger.warn('Password reset request rejected', { statusCode: error.statusCode });
+    }
+
+    req.session!.passwordResetEmail = email;
+    res.redirect('/auth/forgotten-password/confirmation');
+  });
+
+  /**
+   * GET /auth/forgotten-password/confirmation
+   * Tell the user to check their email
+   */
+  app.get('/auth/forgotten-password/confirmation', redirectIfAuthenticated, (req: Request, res: Response) => {
+    const email = req.session?.passwordResetEmail;
+
+    if (!email) {
+      res.redirect('/auth/forgotten-password');
+      return;
+    }
+
+    res.render('auth/forgotten-password-confirmation', {
+      pageTitle: 'Check your email',
+      email,
+    });
+  });
+
+  /**
+   * GET /auth/reset-password/:token
+   * Open a reset link. The token is checked, then moved into the session so it does not stay in the address bar,
+   * browser history or Referer headers.
+   */
+  app.get('/auth/reset-password/:token', redirectIfAuthenticated, async (req: Request, res: Response) => {
+    const { token } = req.params;
+
+    try {
+      await authService.verifyResetToken(token);
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        logger.warn('Password reset link rejected', { statusCode: error.statusCode });
+        delete req.session!.passwordResetToken;
+        renderResetLinkExpired(res);
+        return;
+      }
+      logger.error('Password reset token verification error', { error: error.message });
+      res.render('error', {
+        message: 'Unable to check the password reset link',
+        error: process.env.NODE_ENV === 'development' ? error : {},
+      });
+      return;
+    }
+
+    req.session!.passwordResetToken = token;
+    res.redirect('/auth/reset-password');
+  });
+
+  /**
+   * GET /auth/reset-password
+   * Ask for the new password, once a reset link has been opened
+   */
+  app.get('/auth/reset-password', redirectIfAuthenticated, (req: Request, res: Response) => {
+    if (!req.session?.passwordResetToken) {
+      renderResetLinkExpired(res);
+      return;
+    }
+
+    const errors = req.session.errors || [];
+    res.render('auth/reset-password', {
+      pageTitle: 'Create a new password',
+      errors,
+      passwordError: errors.find(error => error.href === '#password')?.text,
+      confirmPasswordError: errors.find(error => error.href === '#confirmPassword')?.text,
+      minPasswordLength: MIN_PASSWORD_LENGTH,
+      csrfToken: req.csrfToken?.() || '',
+    });
+    delete req.session.errors;
+  });
+
+  /**
+   * POST /auth/reset-password
+   * Check the new password and set it with the backend
+   */
+  app.post('/auth/reset-password', redirectIfAuthenticated, async (req: Request, res: Response) => {
+    const token = req.session?.passwordResetToken;
+    const { password, confirmPassword } = req.body;
+
+    if (!token) {
+      renderResetLinkExpired(res);
+      return;
+    }
+
+    const errors: { text: string; href: string }[] = [];
+    const passwordError = checkPasswordStrength(password);
+    if (passwordError) {
+      errors.push({ text: passwordError, href: '#password' });
+    }
+    if (!confirmPassword) {
+      errors.push({ text: 'Enter your new password again', href: '#confirmPassword' });
+    } else if (!passwordError && confirmPassword !== password) {
+      errors.push({ text: 'Passwords do not match', href: '#confirmPassword' });
+    }
+    if (errors.length > 0) {
+      req.session!.errors = errors;
+      res.redirect('/auth/reset-password');
+      return;
+    }
+
+    try {
+      await authService.resetPassword(token, password);
+    } catch (error) {
+      logger.error('Password reset error', { error: error.message, statusCode: error.statusCode });
+
+      if (error instanceof AuthenticationError && [404, 410].includes(error.statusCode)) {
+        delete req.session!.passwordResetToken;
+        renderResetLinkExpired(res);
+        return;
+      }
+
+      // The backend may have its own rules, such as not reusing a recent password
+      req.session!.errors = [
+        {
+          text:
+            error instanceof AuthenticationError && error.statusCode === 400
+              ? error.message
+              : 'Sorry, there is a problem with the service. Try again later.',
+          href: '#password',
+        },
+      ];
+      res.redirect('/auth/reset-password');
+      return;
+    }
+
+    logger.info('Password reset, redirecting to sign in');
+    delete req.session!.passwordResetToken;
+    delete req.session!.passwordResetEmail;
+    req.session!.successMessage = 'Your password has been reset. Sign in with your new password.';
     res.redirect('/auth/login');
   });
+
+  /**
+   * GET /auth/verify-code
+   * Ask for the one-time code (Step 3, only for users the backend requires two-factor sign-in for)
+   */
+  app.get('/auth/verify-code', redirectIfAuthenticated, (req: Request, res: Response) => {
+    const pending = req.session?.pendingTwoFactor;
+
+    if (!pending) {
+      res.redirect('/auth/login');
+      return;
+    }
+
+    res.render('auth/verify-code', {
+      pageTitle: pending.method === 'email' ? 'Check your email' : 'Enter your security code',
+      email: pending.email,
+      method: pending.method,
+      errors: req.session?.errors || [],
+      successMessage: req.session?.successMessage,
+      csrfToken: req.csrfToken?.() || '',
+      retryAfter: secondsUntilRetry(req),
+    });
+    delete req.session?.errors;
+    delete req.session?.successMessage;
+  });
+
+  /**
+   * POST /auth/verify-code
+   * Check the one-time code and complete sign-in. After too many incorrect codes the user has to start again, so
+   * codes cannot be guessed against one password.
+   */
+  app.post('/auth/verify-code', redirectIfAuthenticated, async (req: Request, res: Response) => {
+    const pending = req.session?.pendingTwoFactor;
+
+    if (!pending) {
+      logger.warn('One-time code submitted without a pending sign-in');
+      res.redirect('/auth/login');
+      return;
+    }
+
+    const code = typeof req.body.code === 'string' ? req.body.code.replace(/\s/g, '') : '';
+    if (!ONE_TIME_CODE_PATTERN.test(code)) {
+      req.session!.errors = [
+        { text: code ? 'Enter the security code using 6 digits' : 'Enter your security code', href: '#code' },
+      ];
+      res.redirect('/auth/verify-code');
+      return;
+    }
+
+    // Each sign-in gets its own count, which a user cannot reset without starting again
+    const attemptKey = `${req.sessionID}:${pending.challengeToken}`;
+    const maxAttempts = getMaxCodeAttempts();
+    let attempt: number;
+    try {
+      attempt = await codeAttempts.reserve(attemptKey);
+    } catch (error) {
+      logger.error('Could not count one-time code attempt', { error: error.message });
+      req.session!.errors = [{ text: 'Sorry, there is a problem with the service. Try again later.', href: '#code' }];
+      res.redirect('/auth/verify-code');
+      return;
+    }
+
+    if (attempt > maxAttempts) {
+      logger.warn('Too many one-time code attempts', { email: pending.email });
+      delete req.session!.pendingTwoFactor;
+      req.session!.errors = [{ text: TOO_MANY_CODE_ATTEMPTS, href: '#email' }];
+      res.redirect('/auth/login');
+      return;
+    }
+
+    try {
+      const result = await authService.verifyCode(pending.challengeToken, code);
+      completeSignIn(req, res, pending.email, result.token as string);
+    } catch (error) {
+      logger.error('One-time code error', { error: error.message, email: pending.email });
+
+      const incorrect = error instanceof AuthenticationError && [400, 401].includes(error.statusCode);
+      if (!incorrect) {
+        await codeAttempts.release(attemptKey);
+      }
+
+      const attemptsLeft = maxAttempts - (incorrect ? attempt : attempt - 1);
+      if (attemptsLeft <= 0 || (error instanceof AuthenticationError && error.statusCode === 410)) {
+        delete req.session!.pendingTwoFactor;
+        req.session!.errors = [
+          {
+            text:
+              attemptsLeft <= 0
+                ? TOO_MANY_CODE_ATTEMPTS
+                : 'Your security code has expired. Sign in again to get a new code.',
+            href: '#email',
+          },
+        ];
+        res.redirect('/auth/login');
+        return;
+      }
+
+      req.session!.errors = [
+        {
+          text: incorrect
+            ? `The security code is incorrect. You have ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left.`
+            : toSignInError(req, error) || 'Sorry, there is a problem with the service. Try again later.',
+          href: '#code',
+        },
+      ];
+      res.redirect('/auth/verify-code');
+    }
+  });
+
+  /**
+   * POST /auth/resend-code
+   * Email a new one-time code. Codes from an authenticator app cannot be resent.
+   */
+  app.post('/auth/resend-code', redirectIfAuthenticated, async (req: Request, res: Response) => {
+    const pending = req.session?.pendingTwoFactor;
+
+    if (!pending) {
+      res.redirect('/auth/login');
+      return;
+    }
+    if (pending.method !== 'email') {
+      res.redirect('/auth/verify-code');
+      return;
+    }
+
+    try {
+      await authService.resendCode(pending.challengeToken);
+      req.session!.successMessage = `We have sent a new security code to ${pending.email}`;
+    } catch (error) {
+      logger.error('One-time code resend error', { error: error.message, email: pending.email });
+      req.session!.errors = [
+        {
+          text: toSignInError(req, error) || 'We could not send a new code. Try again later.',
+          href: '#code',
+        },
+      ];
+    }
+    res.redirect('/auth/verify-code');
+  });
 }
@@ -0,0 +1,54 @@
+import { CSP_REPORT_PATH } from '../middleware/csp';
+import { logger } from '../utils/logger';
+
+import express, { Application, Request, Response } from 'express';
+
+// Browsers send `report-uri` reports as application/csp-report and Reporting API batches as application/reports+json
+const parseReport = express.json({ type: ['application/csp-report', 'application/reports+json'], limit: '10kb' });
+
+interface ViolationSummary {
+  documentUri?: string;
+  violatedDirective?: string;
+  blockedUri?: string;
+  sourceFile?: string;
+  lineNumber?: number;
+}
+
+function toViolations(body: unknown): ViolationSummary[] {
+  if (Array.isArray(body)) {
+    return body
+      .filter(report => report?.type === 'csp-violation' && report.body)
+      .map(({ body: report }) => ({
+        documentUri: report.documentURL,
+        violatedDirective: report.effectiveDirective,
+        blockedUri: report.blockedURL,
+        sourceFile: report.sourceFile,
+        lineNumber: report.lineNumber,
+      }));
+  }
+
+  const report = (body as { 'csp-report'?: Record<string, unknown> })?.['csp-report'];
+  if (!report) {
+    return [];
+  }
+  return [
+    {
+      documentUri: report['document-uri'] as string,
+      violatedDirective: (report['effective-directive'] || report['violated-directive']) as string,
+      blockedUri: report['blocked-uri'] as string,
+      sourceFile: report['source-file'] as string,
+      lineNumber: report['line-number'] as number,
+    },
+  ];
+}
+
+export default function (app: Application): void {
+  /**
+   * POST /csp-report
+   * Log Content Security Policy violations reported by browsers
+   */
+  app.post(CSP_REPORT_PATH, parseReport, (req: Request, res: Response) => {
+    toViolations(req.body).forEach(violation => logger.warn('Content Security Policy violation', violation));
+    res.status(204).end();
+  });
+}
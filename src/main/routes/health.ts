@@ -0,0 +1,31 @@
+import { getBackendConfig } from '../config/backend';
+import { BackendHealthService } from '../services/backendHealthService';
+
+import { Application } from 'express';
+
+const healthcheck = require('@hmcts/nodejs-healthcheck');
+
+export default function (app: Application): void {
+  const backendHealthService = new BackendHealthService(getBackendConfig());
+
+  // server.ts sets app.locals.shutdown on SIGTERM so traffic drains before the process exits
+  const shutdownCheck = healthcheck.raw(() => (app.locals.shutdown ? healthcheck.down() : healthcheck.up()));
+
+  // A slow backend still serves requests, so only DOWN takes this instance out of rotation
+  const backendCheck = healthcheck.raw(async () => {
+    const health = await backendHealthService.check();
+    return health.status === 'DOWN' ? healthcheck.down() : healthcheck.up({ backendStatus: health.status });
+  });
+
+  // Liveness is always UP and makes no outbound calls, so a slow backend never restarts this app
+  healthcheck.addTo(app, {
+    checks: {
+      shutdown: shutdownCheck,
+      backend: backendCheck,
+    },
+    readinessChecks: {
+      shutdown: shutdownCheck,
+      backend: backendCheck,
+    },
+  });
+}
@@ -0,0 +1,22 @@
+import * as os from 'os';
+
+import { infoRequestHandler } from '@hmcts/info-provider';
+import { Application } from 'express';
+
+const { name, version } = require('../../../package.json');
+
+export default function (app: Application): void {
+  // Build details come from the version file written by the pipeline; these fill in for local runs
+  app.get(
+    '/info',
+    infoRequestHandler({
+      info: {},
+      extraBuildInfo: {
+        name,
+        version,
+        commit: process.env.GIT_COMMIT || 'unknown',
+        host: os.hostname(),
+      },
+    })
+  );
+}
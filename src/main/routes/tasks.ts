@@ -1,39 +1,169 @@
 /// <reference path="../types/express-session.d.ts" />
 
-import { requireAuth } from '../middleware/auth';
+import { getBackendConfig } from '../config/backend';
+import { expireSession, requireAuth } from '../middleware/auth';
+import {
+  CreateTaskRequest,
+  Task,
+  TaskApiError,
+  TaskListParams,
+  TaskService,
+  TaskStatus,
+} from '../services/taskService';
 import { logger } from '../utils/logger';
+import { Page, buildPagination, paginate, parsePageRequest, toPage } from '../utils/pagination';
+import { toSafeReturnPath } from '../utils/returnTo';
+import {
+  applyTaskFilters,
+  hasActiveFilters,
+  parseTaskFilters,
+  toBackendParams,
+  toQueryParams,
+} from '../utils/taskFilters';
+import { buildSortColumns, parseTaskSort, sortTasks } from '../utils/taskSorting';
+import { isTaskStatus, validateStatusTransition } from '../utils/taskStatusTransitions';
 
-import axios from 'axios';
 import config from 'config';
 import { Application, Request, Response } from 'express';
 
-interface ServiceConfig {
-  url: string;
-  timeout: number;
+const DEFAULT_PAGE_SIZE = 20;
+
+interface TaskFormErrors {
+  errorMessage: string;
+  validationErrors: Record<string, string>;
+}
+
+const statusChangeMessages: Record<TaskStatus, string> = {
+  PENDING: 'Task reopened',
+  IN_PROGRESS: 'Task marked as in progress',
+  COMPLETED: 'Task marked as complete',
+  CANCELLED: 'Task cancelled',
+};
+
+/** The backend rejects expired and revoked tokens with a 401 */
+function isUnauthorised(error: unknown): boolean {
+  return error instanceof TaskApiError && error.statusCode === 401;
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof TaskApiError && error.statusCode === 404;
+}
+
+/**
+ * Maps a backend error onto the error summary and field errors shown by the manage form.
+ * Business day and weekend rule violations are attributed to the due date field.
+ */
+function mapTaskFormErrors(error: unknown, defaultMessage: string): TaskFormErrors {
+  let errorMessage = defaultMessage;
+  const validationErrors: Record<string, string> = {};
+
+  if (error instanceof TaskApiError) {
+    if (error.validationErrors) {
+      Object.assign(validationErrors, error.validationErrors);
+      errorMessage = 'Please correct the validation errors below.';
+    } else {
+      errorMessage = error.message;
+      // If the error message contains "business day" or "weekend", attribute it to dueDateTime field
+      if (errorMessage.toLowerCase().includes('business day') || errorMessage.toLowerCase().includes('weekend')) {
+        validationErrors.dueDateTime = errorMessage;
+      }
+    }
+  }
+
+  return { errorMessage, validationErrors };
+}
+
+function toTaskRequest(body: Request['body']): CreateTaskRequest {
+  return {
+    title: body.title,
+    description: body.description,
+    status: body.status,
+    dueDateTime: body.dueDateTime,
+  };
+}
+
+function renderTaskNotFound(res: Response, taskId: string): void {
+  logger.warn('Task not found', { taskId });
+  res.status(404).render('not-found', {
+    message: 'Task not found',
+  });
 }
 
 export default function (app: Application): void {
+  const backendConfig = getBackendConfig();
+  const taskService = new TaskService(backendConfig.url, backendConfig.timeout);
+
   // Protect all tasks routes with authentication
   app.get('/tasks', requireAuth, async (req: Request, res: Response) => {
     try {
-      const backendConfig = config.get<ServiceConfig>('services.backend');
-      const token = req.session?.token;
+      const token = req.session?.token as string;
+      const filters = parseTaskFilters(req.query);
+      const sort = parseTaskSort(req.query);
+      const pageRequest = parsePageRequest(
+        req.query,
+        (config.has('tasks.pageSize') && config.get<number>('tasks.pageSize')) || DEFAULT_PAGE_SIZE
+      );
+      const backendFiltering = config.has('tasks.backendFiltering') && !!config.get<boolean>('tasks.backendFiltering');
+      const backendPaging = config.has('tasks.backendPaging') && !!config.get<boolean>('tasks.backendPaging');
 
-      const response = await axios.get(`${backendConfig.url}/api/tasks`, {
-        timeout: backendConfig.timeout,
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      // A paging backend has to filter and sort too, otherwise each page would only be a slice of the matches
+      const params: TaskListParams = {
+        ...(backendFiltering || backendPaging ? toBackendParams(filters) : {}),
+        ...(backendPaging
+          ? { page: pageRequest.page - 1, size: pageRequest.pageSize, sort: `${sort.field},${sort.order}` }
+          : {}),
+      };
+
+      const result = await taskService.list(token, params);
+
+      logger.info('Tasks fetched successfully', { count: result.tasks.length });
 
-      logger.info('Tasks fetched successfully', { count: response.data.length });
+      let page: Page<Task>;
+      if (backendPaging && result.totalElements !== undefined) {
+        // Overdue tasks can only be moved to the top of this page; the backend decides what is on each page
+        page = toPage(sortTasks(result.tasks, sort), result.totalElements, pageRequest);
+      } else {
+        // Backends without filtering support return every task, so narrow them down here
+        const filteredTasks =
+          backendFiltering || backendPaging ? result.tasks : applyTaskFilters(result.tasks, filters);
+        page = paginate(sortTasks(filteredTasks, sort), pageRequest);
+      }
+
+      // Links keep the current filters and any custom page size; changing the sort starts from page 1
+      const listParams = toQueryParams(filters);
+      if (req.query.pageSize) {
+        listParams.set('pageSize', String(pageRequest.pageSize));
+      }
+      const pageParams = new URLSearchParams(listParams);
+      pageParams.set('sort', sort.field);
+      pageParams.set('order', sort.order);
+      // Status changes made from this page come back to it, with the same filters, sort and page
+      const currentParams = new URLSearchParams(pageParams);
+      if (page.page > 1) {
+        currentParams.set('page', String(page.page));
+      }
 
       res.render('tasks/list', {
         pageTitle: 'Task List',
-        tasks: response.data,
-        email: req.session?.email,
+        tasks: page.items,
+        page,
+        pagination: buildPagination(page, '/tasks', pageParams),
+        listUrl: `/tasks?${currentParams}`,
+        customPageSize: req.query.pageSize ? pageRequest.pageSize : undefined,
+        filters,
+        filtersApplied: hasActiveFilters(filters),
+        sort,
+        sortColumns: buildSortColumns(sort, listParams),
+        csrfToken: req.csrfToken?.() || '',
+        successMessage: req.session?.successMessage,
       });
+      // Clear the one-off notification once shown
+      delete req.session?.successMessage;
     } catch (error) {
+      if (isUnauthorised(error)) {
+        expireSession(req, res);
+        return;
+      }
       logger.error('Error fetching tasks', { error });
       res.render('error', {
         message: 'Unable to fetch tasks',
@@ -53,59 +183,30 @@ export default function (app: Application): void {
 
   app.post('/tasks/create', requireAuth, async (req: Request, res: Response) => {
     try {
-      const backendConfig = config.get<ServiceConfig>('services.backend');
-      const token = req.session?.token;
-
-      const taskData = {
-        title: req.body.title,
-        description: req.body.description,
-        status: req.body.status,
-        dueDateTime: req.body.dueDateTime,
-      };
+      const token = req.session?.token as string;
+      const taskData = toTaskRequest(req.body);
 
       logger.info('Submitting task creation request', { title: taskData.title });
 
-      const response = await axios.post(`${backendConfig.url}/api/tasks`, taskData, {
-        timeout: backendConfig.timeout,
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${token}`,
-        },
-      });
+      const task = await taskService.create(token, taskData);
 
-      logger.info('Task created successfully', { taskId: response.data.id });
+      logger.info('Task created successfully', { taskId: task.id });
 
       res.render('tasks/success', {
         pageTitle: 'Task Created Successfully',
-        task: response.data,
+        task,
       });
     } catch (error) {
+      if (isUnauthorised(error)) {
+        expireSession(req, res);
+        return;
+      }
       logger.error('Error creating task', { error });
 
-      let errorMessage = 'An unexpected error occurred while creating the task.';
-      let validationErrors: Record<string, string> = {};
-
-      if (
-        error &&
-        typeof error === 'object' &&
-        'response' in error &&
-        (error as { response?: { data?: { validationErrors?: Record<string, string>; message?: string } } }).response
-      ) {
-        const errorData = (
-          error as { response: { data?: { validationErrors?: Record<string, string>; message?: string } } }
-        ).response.data;
-
-        if (errorData && errorData.validationErrors) {
-          validationErrors = errorData.validationErrors;
-          errorMessage = 'Please correct the validation errors below.';
-        } else if (errorData && errorData.message) {
-          errorMessage = errorData.message;
-          // If the error message contains "business day" or "weekend", attribute it to dueDateTime field
-          if (errorMessage.toLowerCase().includes('business day') || errorMessage.toLowerCase().includes('weekend')) {
-            validationErrors.dueDateTime = errorMessage;
-          }
-        }
-      }
+      const { errorMessage, validationErrors } = mapTaskFormErrors(
+        error,
+        'An unexpected error occurred while creating the task.'
+      );
 
       res.status(400).render('tasks/manage', {
         pageTitle: 'Create New Task',
@@ -118,4 +219,268 @@ export default function (app: Application): void {
       });
     }
   });
+
+  app.get('/tasks/:id', requireAuth, async (req: Request, res: Response) => {
+    const taskId = req.params.id;
+
+    try {
+      const task = await taskService.get(req.session?.token as string, taskId);
+
+      logger.info('Task fetched successfully', { taskId });
+
+      const errors = req.session?.errors || [];
+
+      res.render('tasks/detail', {
+        pageTitle: 'Task Details',
+        task,
+        csrfToken: req.csrfToken?.() || '',
+        errors,
+        reasonError: errors.find(error => error.href === '#reason')?.text,
+        successMessage: req.session?.successMessage,
+      });
+      // Clear any previous errors and notifications
+      delete req.session?.errors;
+      delete req.session?.successMessage;
+    } catch (error) {
+      if (isUnauthorised(error)) {
+        expireSession(req, res);
+        return;
+      }
+      if (isNotFound(error)) {
+        renderTaskNotFound(res, taskId);
+        return;
+      }
+
+      logger.error('Error fetching task', { taskId, error });
+      res.render('error', {
+        message: 'Unable to fetch task',
+        error: process.env.NODE_ENV === 'development' ? error : {},
+      });
+    }
+  });
+
+  app.get('/tasks/:id/update', requireAuth, async (req: Request, res: Response) => {
+    const taskId = req.params.id;
+
+    try {
+      const task = await taskService.get(req.session?.token as string, taskId);
+
+      res.render('tasks/manage', {
+        pageTitle: 'Update Task',
+        formData: {
+          title: task.title,
+          description: task.description,
+          status: task.status,
+          // datetime-local inputs only accept minute precision
+          dueDateTime: typeof task.dueDateTime === 'string' ? task.dueDateTime.slice(0, 16) : '',
+        },
+        csrfToken: req.csrfToken?.() || '',
+        action: 'update',
+        formAction: `/tasks/${encodeURIComponent(taskId)}/update`,
+        taskId,
+      });
+    } catch (error) {
+      if (isUnauthorised(error)) {
+        expireSession(req, res);
+        return;
+      }
+      if (isNotFound(error)) {
+        renderTaskNotFound(res, taskId);
+        return;
+      }
+
+      logger.error('Error fetching task for update', { taskId, error });
+      res.render('error', {
+        message: 'Unable to fetch task',
+        error: process.env.NODE_ENV === 'development' ? error : {},
+      });
+    }
+  });
+
+  app.post('/tasks/:id/update', requireAuth, async (req: Request, res: Response) => {
+    const taskId = req.params.id;
+
+    const renderFormErrors = (errorMessage: string, validationErrors: Record<string, string>): void => {
+      res.status(400).render('tasks/manage', {
+        pageTitle: 'Update Task',
+        errorMessage,
+        validationErrors,
+        formData: req.body,
+        csrfToken: req.csrfToken?.() || '',
+        action: 'update',
+        formAction: `/tasks/${encodeURIComponent(taskId)}/update`,
+        taskId,
+      });
+    };
+
+    try {
+      const token = req.session?.token as string;
+      const taskData = toTaskRequest(req.body);
+
+      // Editing must follow the same status rules as the status actions, so a form cannot reopen a cancelled task
+      const current = await taskService.get(token, taskId);
+      const currentStatus = current?.status;
+      if (taskData.status !== currentStatus) {
+        let transitionError: string | undefined;
+        if (!isTaskStatus(taskData.status)) {
+          transitionError = 'Select a valid status';
+        } else if (!isTaskStatus(currentStatus)) {
+          transitionError = 'The current status of this task is not recognised';
+        } else if (currentStatus === 'CANCELLED') {
+          transitionError = 'Cancelled tasks can only be reopened from the task page, with a reason';
+        } else {
+          transitionError = validateStatusTransition(currentStatus, taskData.status);
+        }
+
+        if (transitionError) {
+          logger.warn('Task status transition rejected', { taskId, from: currentStatus, to: taskData.status });
+          renderFormErrors('Please correct the validation errors below.', { status: transitionError });
+          return;
+        }
+      }
+
+      logger.info('Submitting task update request', { taskId, title: taskData.title });
+
+      await taskService.update(token, taskId, taskData);
+
+      logger.info('Task updated successfully', { taskId });
+
+      res.redirect(`/tasks/${encodeURIComponent(taskId)}`);
+    } catch (error) {
+      if (isUnauthorised(error)) {
+        expireSession(req, res);
+        return;
+      }
+      if (isNotFound(error)) {
+        renderTaskNotFound(res, taskId);
+        return;
+      }
+
+      logger.error('Error updating task', { taskId, error });
+
+      const { errorMessage, validationErrors } = mapTaskFormErrors(
+        error,
+        'An unexpected error occurred while updating the task.'
+      );
+      renderFormErrors(errorMessage, validationErrors);
+    }
+  });
+
+  app.get('/tasks/:id/delete', requireAuth, async (req: Request, res: Response) => {
+    const taskId = req.params.id;
+
+    try {
+      const task = await taskService.get(req.session?.token as string, taskId);
+
+      res.render('tasks/delete', {
+        pageTitle: 'Delete Task',
+        task,
+        csrfToken: req.csrfToken?.() || '',
+      });
+    } catch (error) {
+      if (isUnauthorised(error)) {
+        expireSession(req, res);
+        return;
+      }
+      if (isNotFound(error)) {
+        renderTaskNotFound(res, taskId);
+        return;
+      }
+
+      logger.error('Error fetching task for deletion', { taskId, error });
+      res.render('error', {
+        message: 'Unable to fetch task',
+        error: process.env.NODE_ENV === 'development' ? error : {},
+      });
+    }
+  });
+
+  app.post('/tasks/:id/delete', requireAuth, async (req: Request, res: Response) => {
+    const taskId = req.params.id;
+
+    try {
+      logger.info('Submitting task deletion request', { taskId });
+
+      await taskService.delete(req.session?.token as string, taskId);
+
+      logger.info('Task deleted successfully', { taskId });
+
+      req.session!.successMessage = 'Task deleted successfully';
+      res.redirect('/tasks');
+    } catch (error) {
+      if (isUnauthorised(error)) {
+        expireSession(req, res);
+        return;
+      }
+      if (isNotFound(error)) {
+        renderTaskNotFound(res, taskId);
+        return;
+      }
+
+      logger.error('Error deleting task', { taskId, error });
+      res.render('error', {
+        message: 'Unable to delete task',
+        error: process.env.NODE_ENV === 'development' ? error : {},
+      });
+    }
+  });
+
+  app.post('/tasks/:id/status', requireAuth, async (req: Request, res: Response) => {
+    const taskId = req.params.id;
+    const detailUrl = `/tasks/${encodeURIComponent(taskId)}`;
+    const { status, reason } = req.body;
+    // Only the list and detail pages host status forms, so anything else falls back to the detail page
+    const listUrl = toSafeReturnPath(req.body.returnTo);
+    const returnTo = listUrl?.split('?')[0] === '/tasks' ? listUrl : detailUrl;
+
+    const rejectTransition = (text: string, href: string): void => {
+      req.session!.errors = [{ text, href }];
+      res.redirect(detailUrl);
+    };
+
+    if (!isTaskStatus(status)) {
+      logger.warn('Invalid task status requested', { taskId, status });
+      rejectTransition('Select a valid status', '#task-status');
+      return;
+    }
+
+    try {
+      const token = req.session?.token as string;
+      const current = await taskService.get(token, taskId);
+
+      const currentStatus = current?.status;
+      const transitionError = isTaskStatus(currentStatus)
+        ? validateStatusTransition(currentStatus, status, reason)
+        : 'The current status of this task is not recognised';
+      if (transitionError) {
+        logger.warn('Task status transition rejected', { taskId, from: currentStatus, to: status });
+        rejectTransition(transitionError, currentStatus === 'CANCELLED' ? '#reason' : '#task-status');
+        return;
+      }
+
+      logger.info('Submitting task status change', { taskId, from: currentStatus, to: status });
+
+      await taskService.changeStatus(token, taskId, status, reason ? reason.trim() : undefined);
+
+      logger.info('Task status changed successfully', { taskId, status });
+
+      req.session!.successMessage = statusChangeMessages[status];
+      res.redirect(returnTo);
+    } catch (error) {
+      if (isUnauthorised(error)) {
+        expireSession(req, res);
+        return;
+      }
+      if (isNotFound(error)) {
+        renderTaskNotFound(res, taskId);
+        return;
+      }
+
+      logger.error('Error changing task status', { taskId, error });
+      rejectTransition(
+        error instanceof TaskApiError ? error.message : 'Unable to change the task status. Please try again.',
+        '#task-status'
+      );
+    }
+  });
 }
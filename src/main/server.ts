@@ -1,5 +1,6 @@
 #!/usr/bin/env node
 import * as fs from 'fs';
+import * as http from 'http';
 import * as https from 'https';
 import * as path from 'path';
 import * as util from 'util';
@@ -16,7 +17,7 @@ import { logger } from './utils/logger';
 
 import config from 'config';
 
-let httpsServer: https.Server | null = null;
+let server: http.Server | https.Server | null = null;
 
 // used by shutdownCheck in readinessChecks
 app.locals.shutdown = false;
@@ -34,12 +35,12 @@ if (app.locals.ENV === 'development') {
     cert: fs.readFileSync(path.join(sslDirectory, 'localhost.crt')),
     key: fs.readFileSync(path.join(sslDirectory, 'localhost.key')),
   };
-  httpsServer = https.createServer(sslOptions, app);
-  httpsServer.listen(port, () => {
+  server = https.createServer(sslOptions, app);
+  server.listen(port, () => {
     logger.info(`Application started: https://localhost:${port}`);
   });
 } else {
-  app.listen(port, () => {
+  server = app.listen(port, () => {
     logger.info('Application started: http://localhost:' + port);
   });
 }
@@ -52,8 +53,9 @@ function gracefulShutdownHandler(signal: string): void {
   setTimeout(() => {
     logger.info('Shutting down application');
     // Close server if it's running
-    httpsServer?.close(() => {
-      logger.info('HTTPS server closed');
+    server?.close(() => {
+      logger.info('Server closed');
+      logger.close();
       process.exit(0);
     });
 
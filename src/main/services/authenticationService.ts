@@ -1,4 +1,5 @@
 import { logger } from '../utils/logger';
+import { requestIdHeaders } from '../utils/requestContext';
 
 import axios, { AxiosError } from 'axios';
 
@@ -9,15 +10,28 @@ export interface ValidateEmailResponse {
   message: string;
 }
 
+export type TwoFactorMethod = 'totp' | 'email';
+
+/**
+ * Either a JWT, or for users who need two-factor sign-in a challenge to complete with a one-time code first.
+ */
 export interface AuthenticateResponse {
-  token: string;
+  token?: string;
   message: string;
+  twoFactorRequired?: boolean;
+  /** Identifies the sign-in attempt when the one-time code is verified or resent */
+  challengeToken?: string;
+  twoFactorMethod?: TwoFactorMethod;
 }
 
 export interface LogoutResponse {
   message: string;
 }
 
+export interface PasswordResetResponse {
+  message: string;
+}
+
 export class AuthenticationError extends Error {
   constructor(
     message: string,
@@ -27,6 +41,11 @@ export class AuthenticationError extends Error {
     super(message);
     this.name = 'AuthenticationError';
   }
+
+  /** The backend answers 423 Locked when an account is locked, as opposed to 429 when attempts are rate limited */
+  get accountLocked(): boolean {
+    return this.statusCode === 423;
+  }
 }
 
 /**
@@ -62,6 +81,7 @@ export class AuthenticationService {
           timeout: this.timeout,
           headers: {
             'Content-Type': 'application/json',
+            ...requestIdHeaders(),
           },
         }
       );
@@ -104,6 +124,7 @@ export class AuthenticationService {
           timeout: this.timeout,
           headers: {
             'Content-Type': 'application/json',
+            ...requestIdHeaders(),
           },
         }
       );
@@ -115,6 +136,72 @@ export class AuthenticationService {
     }
   }
 
+  /**
+   * Completes two-factor sign-in with a one-time code (Step 3 of authentication, when required).
+   *
+   * @param challengeToken - The challenge returned by authenticate
+   * @param code - The 6-digit code from an authenticator app or email
+   * @returns Promise with authentication result including JWT token
+   * @throws AuthenticationError if the code is wrong or the challenge has expired
+   */
+  async verifyCode(challengeToken: string, code: string): Promise<AuthenticateResponse> {
+    if (!challengeToken || challengeToken.trim() === '') {
+      throw new Error('Challenge token is required');
+    }
+    if (!code || code.trim() === '') {
+      throw new Error('Code is required');
+    }
+
+    try {
+      logger.info('Verifying one-time code');
+      const response = await axios.post<AuthenticateResponse>(
+        `${this.backendUrl}/api/auth/verify-code`,
+        { challengeToken, code: code.trim() },
+        {
+          timeout: this.timeout,
+          headers: {
+            'Content-Type': 'application/json',
+            ...requestIdHeaders(),
+          },
+        }
+      );
+
+      logger.info('One-time code verified');
+      return response.data;
+    } catch (error) {
+      return this.handleError(error as AxiosError, 'One-time code verification failed');
+    }
+  }
+
+  /**
+   * Asks the backend to email a new one-time code for a two-factor challenge.
+   *
+   * @param challengeToken - The challenge returned by authenticate
+   * @throws AuthenticationError if the challenge has expired or no more codes can be sent
+   */
+  async resendCode(challengeToken: string): Promise<void> {
+    if (!challengeToken || challengeToken.trim() === '') {
+      throw new Error('Challenge token is required');
+    }
+
+    try {
+      logger.info('Resending one-time code');
+      await axios.post(
+        `${this.backendUrl}/api/auth/resend-code`,
+        { challengeToken },
+        {
+          timeout: this.timeout,
+          headers: {
+            'Content-Type': 'application/json',
+            ...requestIdHeaders(),
+          },
+        }
+      );
+    } catch (error) {
+      return this.handleError(error as AxiosError, 'One-time code resend failed');
+    }
+  }
+
   /**
    * Logs out a user by blacklisting their JWT token.
    *
@@ -136,6 +223,7 @@ export class AuthenticationService {
           timeout: this.timeout,
           headers: {
             'Content-Type': 'application/json',
+            ...requestIdHeaders(),
           },
         }
       );
@@ -147,6 +235,107 @@ export class AuthenticationService {
     }
   }
 
+  /**
+   * Asks the backend to email a password reset link. The backend answers the same way whether or not an account
+   * exists for the email.
+   *
+   * @param email - The email the reset link should be sent to
+   * @returns Promise with the backend's message
+   * @throws AuthenticationError if the request is rejected
+   */
+  async requestPasswordReset(email: string): Promise<PasswordResetResponse> {
+    if (!email || email.trim() === '') {
+      throw new Error('Email is required');
+    }
+
+    try {
+      logger.info('Requesting password reset', { email });
+      const response = await axios.post<PasswordResetResponse>(
+        `${this.backendUrl}/api/auth/forgotten-password`,
+        { email: email.trim() },
+        {
+          timeout: this.timeout,
+          headers: {
+            'Content-Type': 'application/json',
+            ...requestIdHeaders(),
+          },
+        }
+      );
+
+      logger.info('Password reset requested', { email });
+      return response.data;
+    } catch (error) {
+      return this.handleError(error as AxiosError, 'Password reset request failed');
+    }
+  }
+
+  /**
+   * Checks that a password reset token is still valid, without using it up.
+   * The token is sent in the body so it does not appear in backend access logs.
+   *
+   * @param token - The token from the reset link
+   * @throws AuthenticationError if the token is unknown, used or expired
+   */
+  async verifyResetToken(token: string): Promise<void> {
+    if (!token || token.trim() === '') {
+      throw new Error('Token is required');
+    }
+
+    try {
+      logger.info('Verifying password reset token');
+      await axios.post(
+        `${this.backendUrl}/api/auth/reset-password/verify`,
+        { token },
+        {
+          timeout: this.timeout,
+          headers: {
+            'Content-Type': 'application/json',
+            ...requestIdHeaders(),
+          },
+        }
+      );
+    } catch (error) {
+      return this.handleError(error as AxiosError, 'Password reset token verification failed');
+    }
+  }
+
+  /**
+   * Sets a new password using a reset token, which the backend then invalidates.
+   *
+   * @param token - The token from the reset link
+   * @param password - The new password
+   * @returns Promise with the backend's message
+   * @throws AuthenticationError if the token is not valid or the password is rejected
+   */
+  async resetPassword(token: string, password: string): Promise<PasswordResetResponse> {
+    if (!token || token.trim() === '') {
+      throw new Error('Token is required');
+    }
+    if (!password || password.trim() === '') {
+      throw new Error('Password is required');
+    }
+
+    try {
+      logger.info('Resetting password');
+      const response = await axios.post<PasswordResetResponse>(
+        `${this.backendUrl}/api/auth/reset-password`,
+        { token, password },
+        {
+          timeout: this.timeout,
+          headers: {
+            'Content-Type': 'application/json',
+            ...requestIdHeaders(),
+          },
+        }
+      );
+
+      logger.info('Password reset successful');
+      return response.data;
+    } catch (error) {
+      return this.handleError(error as AxiosError, 'Password reset failed');
+    }
+  }
+
   /**
    * Handles errors from API calls and transforms them into AuthenticationError.
    *
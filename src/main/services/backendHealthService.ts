@@ -0,0 +1,93 @@
+import { ServiceConfig } from '../config/backend';
+import { logger } from '../utils/logger';
+
+import axios from 'axios';
+
+export type BackendStatus = 'UP' | 'DEGRADED' | 'DOWN';
+
+export interface BackendHealth {
+  status: BackendStatus;
+  /** Round trip time of the health request in milliseconds, when the backend responded */
+  latency?: number;
+  checkedAt: Date;
+}
+
+const DEFAULT_HEALTH_PATH = '/health';
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_CACHE_TTL = 10000;
+const DEFAULT_DEGRADED_LATENCY = 2000;
+
+interface ActuatorHealthResponse {
+  status?: string;
+  components?: Record<string, { status?: string }>;
+}
+
+/**
+ * Service for checking the health of the backend API.
+ * Results are cached so that page views and probes do not call the backend on every request.
+ */
+export class BackendHealthService {
+  private readonly healthUrl: string;
+  private readonly timeout: number;
+  private readonly cacheTtl: number;
+  private readonly degradedLatency: number;
+  private cached?: BackendHealth;
+  private inFlight?: Promise<BackendHealth>;
+
+  constructor(backendConfig: ServiceConfig) {
+    this.healthUrl = `${backendConfig.url}${backendConfig.health?.path || DEFAULT_HEALTH_PATH}`;
+    this.timeout = backendConfig.timeout || DEFAULT_TIMEOUT;
+    this.cacheTtl = backendConfig.health?.cacheTtl ?? DEFAULT_CACHE_TTL;
+    this.degradedLatency = backendConfig.health?.degradedLatency ?? DEFAULT_DEGRADED_LATENCY;
+  }
+
+  /**
+   * Returns the backend's health, from the cache when the last check is still fresh.
+   * Concurrent callers share a single request. Never rejects: failures are reported as DOWN.
+   *
+   * @returns Promise with the backend status, latency and when it was checked
+   */
+  async check(): Promise<BackendHealth> {
+    if (this.cached && Date.now() - this.cached.checkedAt.getTime() < this.cacheTtl) {
+      return this.cached;
+    }
+
+    if (!this.inFlight) {
+      this.inFlight = this.fetchHealth().then(health => {
+        this.cached = health;
+        this.inFlight = undefined;
+        return health;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async fetchHealth(): Promise<BackendHealth> {
+    const startedAt = Date.now();
+
+    try {
+      const response = await axios.get<ActuatorHealthResponse>(this.healthUrl, {
+        timeout: this.timeout,
+        // Actuator answers 503 with a DOWN body, which is a result rather than an error
+        validateStatus: status => status < 500 || status === 503,
+      });
+      const latency = Date.now() - startedAt;
+      const status = this.toStatus(response.data, latency);
+
+      logger.info('Backend health checked', { status, latency });
+      return { status, latency, checkedAt: new Date() };
+    } catch (error) {
+      logger.warn('Backend health check failed', { url: this.healthUrl, error: error.message });
+      return { status: 'DOWN', checkedAt: new Date() };
+    }
+  }
+
+  private toStatus(body: ActuatorHealthResponse | undefined, latency: number): BackendStatus {
+    if (body?.status !== 'UP') {
+      return 'DOWN';
+    }
+
+    const componentDown = Object.values(body.components || {}).some(component => component.status !== 'UP');
+    return componentDown || latency > this.degradedLatency ? 'DEGRADED' : 'UP';
+  }
+}
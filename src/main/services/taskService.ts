@@ -0,0 +1,243 @@
+import { logger } from '../utils/logger';
+import { requestIdHeaders } from '../utils/requestContext';
+
+import axios, { AxiosError } from 'axios';
+
+export type TaskStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+
+export interface Task {
+  id: number;
+  title: string;
+  description?: string;
+  status: TaskStatus;
+  statusDisplayName: string;
+  dueDateTime: string;
+  createdAt: string;
+  updatedAt: string;
+  overdue: boolean;
+  dueToday: boolean;
+  hoursUntilDue: number;
+}
+
+export interface CreateTaskRequest {
+  title: string;
+  description?: string;
+  status: TaskStatus;
+  dueDateTime: string;
+}
+
+export type UpdateTaskRequest = CreateTaskRequest;
+
+export type TaskListParams = Record<string, string | number>;
+
+export interface TaskListResponse {
+  tasks: Task[];
+  /** Only set when the backend paged the results itself */
+  totalElements?: number;
+}
+
+/** Spring-style page returned by backends that support paging */
+interface TaskPage {
+  content: Task[];
+  totalElements: number;
+}
+
+export class TaskApiError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public validationErrors?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'TaskApiError';
+  }
+}
+
+function isTaskPage(data: unknown): data is TaskPage {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    Array.isArray((data as TaskPage).content) &&
+    typeof (data as TaskPage).totalElements === 'number'
+  );
+}
+
+/**
+ * Service for task operations with the backend API.
+ * Every call is made on behalf of the signed-in user, whose JWT is passed in per request.
+ */
+export class TaskService {
+  private readonly backendUrl: string;
+  private readonly timeout: number;
+
+  constructor(backendUrl: string, timeout: number = 10000) {
+    this.backendUrl = backendUrl;
+    this.timeout = timeout;
+  }
+
+  /**
+   * Lists tasks, passing any filter, sort or paging parameters to the backend.
+   *
+   * @param token - The user's JWT
+   * @param params - Optional query parameters
+   * @returns Promise with the tasks, and the total count when the backend paged them
+   * @throws TaskApiError if the request fails or the response is not a list of tasks
+   */
+  async list(token: string, params?: TaskListParams): Promise<TaskListResponse> {
+    try {
+      const response = await axios.get(`${this.backendUrl}/api/tasks`, {
+        ...this.requestConfig(token),
+        ...(params && Object.keys(params).length > 0 ? { params } : {}),
+      });
+
+      if (isTaskPage(response.data)) {
+        return { tasks: response.data.content, totalElements: response.data.totalElements };
+      }
+      if (Array.isArray(response.data)) {
+        return { tasks: response.data };
+      }
+    } catch (error) {
+      return this.handleError(error as AxiosError, 'Listing tasks failed');
+    }
+
+    logger.error('Listing tasks failed', { error: 'Unexpected response format' });
+    throw new TaskApiError('Unexpected response from task service', 502);
+  }
+
+  /**
+   * Fetches a single task.
+   *
+   * @param token - The user's JWT
+   * @param id - The task ID
+   * @returns Promise with the task
+   * @throws TaskApiError with status 404 if the task does not exist
+   */
+  async get(token: string, id: string | number): Promise<Task> {
+    try {
+      const response = await axios.get<Task>(this.taskUrl(id), this.requestConfig(token));
+      return response.data;
+    } catch (error) {
+      return this.handleError(error as AxiosError, 'Fetching task failed');
+    }
+  }
+
+  /**
+   * Creates a task.
+   *
+   * @param token - The user's JWT
+   * @param task - The task to create
+   * @returns Promise with the created task
+   * @throws TaskApiError with validation errors if the backend rejects the task
+   */
+  async create(token: string, task: CreateTaskRequest): Promise<Task> {
+    try {
+      const response = await axios.post<Task>(`${this.backendUrl}/api/tasks`, task, this.requestConfig(token, true));
+      return response.data;
+    } catch (error) {
+      return this.handleError(error as AxiosError, 'Creating task failed');
+    }
+  }
+
+  /**
+   * Replaces a task's title, description, status and due date.
+   *
+   * @param token - The user's JWT
+   * @param id - The task ID
+   * @param task - The updated task
+   * @returns Promise with the updated task
+   * @throws TaskApiError with validation errors if the backend rejects the update
+   */
+  async update(token: string, id: string | number, task: UpdateTaskRequest): Promise<Task> {
+    try {
+      const response = await axios.put<Task>(this.taskUrl(id), task, this.requestConfig(token, true));
+      return response.data;
+    } catch (error) {
+      return this.handleError(error as AxiosError, 'Updating task failed');
+    }
+  }
+
+  /**
+   * Deletes a task.
+   *
+   * @param token - The user's JWT
+   * @param id - The task ID
+   * @throws TaskApiError with status 404 if the task does not exist
+   */
+  async delete(token: string, id: string | number): Promise<void> {
+    try {
+      await axios.delete(this.taskUrl(id), this.requestConfig(token));
+    } catch (error) {
+      return this.handleError(error as AxiosError, 'Deleting task failed');
+    }
+  }
+
+  /**
+   * Changes a task's status.
+   *
+   * @param token - The user's JWT
+   * @param id - The task ID
+   * @param status - The new status
+   * @param reason - Optional reason, required by the backend when reopening a cancelled task
+   * @returns Promise with the updated task
+   * @throws TaskApiError if the backend rejects the change
+   */
+  async changeStatus(token: string, id: string | number, status: TaskStatus, reason?: string): Promise<Task> {
+    try {
+      const response = await axios.patch<Task>(
+        `${this.taskUrl(id)}/status`,
+        reason ? { status, reason } : { status },
+        this.requestConfig(token, true)
+      );
+      return response.data;
+    } catch (error) {
+      return this.handleError(error as AxiosError, 'Changing task status failed');
+    }
+  }
+
+  private taskUrl(id: string | number): string {
+    return `${this.backendUrl}/api/tasks/${encodeURIComponent(String(id))}`;
+  }
+
+  private requestConfig(token: string, hasBody = false): { timeout: number; headers: Record<string, string> } {
+    return {
+      timeout: this.timeout,
+      headers: {
+        ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+        Authorization: `Bearer ${token}`,
+        ...requestIdHeaders(),
+      },
+    };
+  }
+
+  /**
+   * Handles errors from API calls and transforms them into TaskApiError.
+   *
+   * @param error - The error from axios
+   * @param context - Context message for logging
+   * @throws TaskApiError with the backend's message, status code and any validation errors
+   */
+  private handleError(error: AxiosError, context: string): never {
+    if (error.response) {
+      const statusCode = error.response.status;
+      const data = error.response.data as {
+        message?: string;
+        error?: string;
+        validationErrors?: Record<string, string>;
+      };
+
+      logger.error(context, {
+        statusCode,
+        message: data?.message || data?.error,
+      });
+
+      const message = data?.message || data?.error || 'An error occurred';
+      throw new TaskApiError(message, statusCode, data?.validationErrors);
+    } else if (error.request) {
+      logger.error(context, { error: 'No response from server' });
+      throw new Error('Network error: Unable to reach task service');
+    } else {
+      logger.error(context, { error: error.message });
+      throw error;
+    }
+  }
+}
@@ -1,10 +1,32 @@
 import 'express-session';
 
+import { TwoFactorMethod } from '../services/authenticationService';
+
 declare module 'express-session' {
   interface SessionData {
     token?: string;
     email?: string;
     tempEmail?: string;
     errors?: Array<{ text: string; href: string }>;
+    successMessage?: string;
+    sessionExpired?: boolean;
+    returnTo?: string;
+    /** When the user signed in, in milliseconds since the epoch */
+    signedInAt?: number;
+    /** Until when sign-in is locked or rate limited by the backend, in milliseconds since the epoch */
+    signInRetryAt?: number;
+    /** The email a password reset link was requested for, shown on the confirmation page */
+    passwordResetEmail?: string;
+    /** Token from an opened password reset link, kept here rather than in the URL */
+    passwordResetToken?: string;
+    /**
+     * Set between the password and one-time code steps of two-factor sign-in. The user is not signed in until the
+     * code is verified and `token` is set.
+     */
+    pendingTwoFactor?: {
+      email: string;
+      challengeToken: string;
+      method: TwoFactorMethod;
+    };
   }
 }
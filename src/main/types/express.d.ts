@@ -0,0 +1,11 @@
+import { CurrentUser } from '../middleware/currentUser';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      /** Set by the currentUser middleware when the user is signed in */
+      user?: CurrentUser;
+    }
+  }
+}
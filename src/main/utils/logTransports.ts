@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LOG_LEVELS, value);
+}
+
+/** A single, already redacted, log line */
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  requestId?: string;
+  /** Fields bound to a child logger, such as `module: 'auth'` */
+  context: Record<string, unknown>;
+  meta?: unknown;
+}
+
+/**
+ * A destination for log entries. Each transport has its own level, which can be changed at runtime.
+ */
+export interface LogTransport {
+  readonly name: string;
+  level: LogLevel;
+  write(entry: LogEntry): void;
+  close?(): void;
+}
+
+/**
+ * Formats an entry as a single JSON line, with bound context fields alongside the standard ones.
+ */
+export function formatJson(entry: LogEntry): string {
+  const { timestamp, level, message, requestId, context, meta } = entry;
+  return JSON.stringify({
+    timestamp,
+    level,
+    message,
+    ...(requestId ? { requestId } : {}),
+    ...context,
+    ...(meta ? { meta } : {}),
+  });
+}
+
+/**
+ * Formats an entry for reading in a terminal during local development.
+ */
+export function formatPretty(entry: LogEntry): string {
+  const { timestamp, level, message, requestId, context, meta } = entry;
+  const requestStr = requestId ? ` [${requestId}]` : '';
+  const contextStr = Object.entries(context)
+    .map(([key, value]) => ` ${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join('');
+  const metaStr = meta ? `\n${JSON.stringify(meta, null, 2)}` : '';
+  return `[${timestamp}] ${level.toUpperCase()}${requestStr}${contextStr}: ${message}${metaStr}`;
+}
+
+/**
+ * Writes to the console method matching the entry's level, so platform log collectors can tell errors apart.
+ */
+export class ConsoleTransport implements LogTransport {
+  readonly name = 'console';
+
+  constructor(
+    public level: LogLevel,
+    private readonly prettyPrint: boolean = false
+  ) {}
+
+  write(entry: LogEntry): void {
+    const line = this.prettyPrint ? formatPretty(entry) : formatJson(entry);
+    // eslint-disable-next-line no-console
+    console[entry.level](line);
+  }
+}
+
+export interface RotatingFileOptions {
+  path: string;
+  /** Size in bytes at which the file is rotated */
+  maxSize: number;
+  /** Number of rotated files to keep, as `app.log.1` (newest) to `app.log.<maxFiles>` */
+  maxFiles: number;
+}
+
+/**
+ * Appends JSON lines to a file, rotating it once it reaches `maxSize`.
+ * Writes are synchronous so that a line is never lost or reordered around a rotation, and nothing is buffered
+ * when the process exits.
+ */
+export class RotatingFileTransport implements LogTransport {
+  readonly name = 'file';
+  private fd: number;
+  private size: number;
+
+  constructor(
+    public level: LogLevel,
+    private readonly options: RotatingFileOptions
+  ) {
+    fs.mkdirSync(path.dirname(options.path), { recursive: true });
+    this.fd = fs.openSync(options.path, 'a');
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  write(entry: LogEntry): void {
+    const line = `${formatJson(entry)}\n`;
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.options.maxSize) {
+      this.rotate();
+    }
+    fs.writeSync(this.fd, line);
+    this.size += bytes;
+  }
+
+  close(): void {
+    fs.closeSync(this.fd);
+  }
+
+  private rotate(): void {
+    fs.closeSync(this.fd);
+
+    const { path: filePath, maxFiles } = this.options;
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      if (fs.existsSync(`${filePath}.${index}`)) {
+        fs.renameSync(`${filePath}.${index}`, `${filePath}.${index + 1}`);
+      }
+    }
+    if (maxFiles > 0) {
+      fs.renameSync(filePath, `${filePath}.1`);
+    } else {
+      fs.unlinkSync(filePath);
+    }
+
+    this.fd = fs.openSync(filePath, 'a');
+    this.size = 0;
+  }
+}
+
+/**
+ * Keeps entries in memory so tests can assert on what was logged without spying on the console.
+ */
+export class MemoryTransport implements LogTransport {
+  readonly name = 'memory';
+  readonly entries: LogEntry[] = [];
+
+  constructor(public level: LogLevel = 'debug') {}
+
+  write(entry: LogEntry): void {
+    this.entries.push(entry);
+  }
+
+  clear(): void {
+    this.entries.length = 0;
+  }
+}
@@ -1,69 +1,166 @@
+import {
+  ConsoleTransport,
+  LOG_LEVELS,
+  LogEntry,
+  LogLevel,
+  LogTransport,
+  MemoryTransport,
+  RotatingFileTransport,
+} from './logTransports';
+import { DEFAULT_REDACTION, RedactionOptions, maskEmails, redact } from './redact';
+import { getRequestId } from './requestContext';
+
 import config from 'config';
 
-type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type { LogLevel } from './logTransports';
+
+interface TransportConfig {
+  enabled?: boolean;
+  /** Overrides `logging.level` for this transport */
+  level?: LogLevel;
+}
 
 interface LogConfig {
   level: LogLevel;
   prettyPrint: boolean;
+  redaction?: Partial<RedactionOptions>;
+  transports?: {
+    console?: TransportConfig;
+    file?: TransportConfig & { path?: string; maxSize?: number; maxFiles?: number };
+    memory?: TransportConfig;
+  };
 }
 
-class Logger {
-  private config: LogConfig;
-  private levels: Record<LogLevel, number> = {
-    debug: 0,
-    info: 1,
-    warn: 2,
-    error: 3,
-  };
+/** Shared by a logger and all of its children, so a level change applies to every one of them */
+interface LoggerState {
+  transports: LogTransport[];
+  redaction: RedactionOptions;
+}
+
+// Fields every entry sets itself, which bound context must not overwrite
+const RESERVED_FIELDS = ['timestamp', 'level', 'message', 'requestId', 'meta'];
 
-  constructor() {
-    this.config = config.has('logging') ? config.get<LogConfig>('logging') : { level: 'info', prettyPrint: false };
+const DEFAULT_LOG_FILE = {
+  path: 'logs/app.log',
+  maxSize: 10 * 1024 * 1024, // 10 MB
+  maxFiles: 5,
+};
+
+export class Logger {
+  constructor(
+    private readonly state: LoggerState,
+    private readonly context: Record<string, unknown> = {}
+  ) {}
+
+  /**
+   * Creates a logger that adds the given fields, such as `{ module: 'auth' }`, to every entry.
+   * The child writes to the same transports, so level changes on either apply to both.
+   */
+  child(fields: Record<string, unknown>): Logger {
+    const context = { ...this.context };
+    Object.entries(fields)
+      .filter(([key]) => !RESERVED_FIELDS.includes(key))
+      .forEach(([key, value]) => (context[key] = value));
+    return new Logger(this.state, context);
   }
 
-  private shouldLog(level: LogLevel): boolean {
-    return this.levels[level] >= this.levels[this.config.level];
+  /**
+   * Returns the current level of each transport, keyed by transport name.
+   */
+  getLevels(): Record<string, LogLevel> {
+    return Object.fromEntries(this.state.transports.map(transport => [transport.name, transport.level]));
   }
 
-  private formatMessage(level: LogLevel, message: string, meta?: unknown): string {
-    const timestamp = new Date().toISOString();
-    if (this.config.prettyPrint) {
-      const metaStr = meta ? `\n${JSON.stringify(meta, null, 2)}` : '';
-      return `[${timestamp}] ${level.toUpperCase()}: ${message}${metaStr}`;
+  /**
+   * Changes the level of one transport, or of all of them when no name is given.
+   *
+   * @throws Error if there is no transport with the given name
+   */
+  setLevel(level: LogLevel, transportName?: string): void {
+    const transports = transportName
+      ? this.state.transports.filter(transport => transport.name === transportName)
+      : this.state.transports;
+    if (transports.length === 0) {
+      throw new Error(`Unknown log transport "${transportName}"`);
     }
-    const logObject: Record<string, unknown> = { timestamp, level, message };
-    if (meta) {
-      logObject.meta = meta;
-    }
-    return JSON.stringify(logObject);
+    transports.forEach(transport => (transport.level = level));
+  }
+
+  /**
+   * Releases any resources held by the transports, such as open log files.
+   */
+  close(): void {
+    this.state.transports.forEach(transport => transport.close?.());
   }
 
   debug(message: string, meta?: unknown): void {
-    if (this.shouldLog('debug')) {
-      // eslint-disable-next-line no-console
-      console.debug(this.formatMessage('debug', message, meta));
-    }
+    this.log('debug', message, meta);
   }
 
   info(message: string, meta?: unknown): void {
-    if (this.shouldLog('info')) {
-      // eslint-disable-next-line no-console
-      console.info(this.formatMessage('info', message, meta));
-    }
+    this.log('info', message, meta);
   }
 
   warn(message: string, meta?: unknown): void {
-    if (this.shouldLog('warn')) {
-      // eslint-disable-next-line no-console
-      console.warn(this.formatMessage('warn', message, meta));
-    }
+    this.log('warn', message, meta);
   }
 
   error(message: string, meta?: unknown): void {
-    if (this.shouldLog('error')) {
-      // eslint-disable-next-line no-console
-      console.error(this.formatMessage('error', message, meta));
+    this.log('error', message, meta);
+  }
+
+  private log(level: LogLevel, message: string, meta?: unknown): void {
+    const transports = this.state.transports.filter(transport => LOG_LEVELS[level] >= LOG_LEVELS[transport.level]);
+    if (transports.length === 0) {
+      return;
     }
+
+    const entry = this.createEntry(level, message, meta);
+    transports.forEach(transport => transport.write(entry));
   }
+
+  private createEntry(level: LogLevel, message: string, meta?: unknown): LogEntry {
+    const { redaction } = this.state;
+    const requestId = getRequestId();
+    // Redact before any transport sees the entry, so that no destination can leak emails, credentials or headers
+    return {
+      timestamp: new Date().toISOString(),
+      level,
+      message: redaction.enabled && redaction.maskEmails ? maskEmails(message) : message,
+      ...(requestId ? { requestId } : {}),
+      context: redact(this.context, redaction) as Record<string, unknown>,
+      meta: redact(meta, redaction),
+    };
+  }
+}
+
+/**
+ * Creates a logger with the transports enabled in the logging config. The console is enabled unless turned off;
+ * the rotating file and in-memory transports must be turned on.
+ */
+export function createLogger(logConfig: LogConfig): Logger {
+  const { console: consoleConfig, file: fileConfig, memory: memoryConfig } = logConfig.transports || {};
+  const transports: LogTransport[] = [];
+
+  if (consoleConfig?.enabled !== false) {
+    transports.push(new ConsoleTransport(consoleConfig?.level || logConfig.level, logConfig.prettyPrint));
+  }
+  if (fileConfig?.enabled) {
+    transports.push(
+      new RotatingFileTransport(fileConfig.level || logConfig.level, {
+        path: fileConfig.path || DEFAULT_LOG_FILE.path,
+        maxSize: fileConfig.maxSize || DEFAULT_LOG_FILE.maxSize,
+        maxFiles: fileConfig.maxFiles ?? DEFAULT_LOG_FILE.maxFiles,
+      })
+    );
+  }
+  if (memoryConfig?.enabled) {
+    transports.push(new MemoryTransport(memoryConfig.level || logConfig.level));
+  }
+
+  return new Logger({ transports, redaction: { ...DEFAULT_REDACTION, ...logConfig.redaction } });
 }
 
-export const logger = new Logger();
+export const logger = createLogger(
+  config.has('logging') ? config.get<LogConfig>('logging') : { level: 'info', prettyPrint: false }
+);
@@ -0,0 +1,109 @@
+export interface PageRequest {
+  page: number;
+  pageSize: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  totalItems: number;
+  totalPages: number;
+  /** 1-based position of the first item on this page, or 0 when there are no items */
+  from: number;
+  /** 1-based position of the last item on this page */
+  to: number;
+}
+
+interface PaginationLink {
+  href: string;
+}
+
+interface PaginationItem {
+  number?: number;
+  href?: string;
+  current?: boolean;
+  ellipsis?: boolean;
+}
+
+/** Parameters for the govukPagination macro */
+export interface PaginationParams {
+  previous?: PaginationLink;
+  next?: PaginationLink;
+  items: PaginationItem[];
+}
+
+export const MAX_PAGE_SIZE = 100;
+
+function toPositiveInteger(value: unknown): number | undefined {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : NaN;
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Reads `page` and `pageSize` from the query string. Invalid values fall back to the first page
+ * and the configured page size, and the page size is capped at MAX_PAGE_SIZE.
+ */
+export function parsePageRequest(query: Record<string, unknown>, defaultPageSize: number): PageRequest {
+  return {
+    page: toPositiveInteger(query.page) || 1,
+    pageSize: Math.min(toPositiveInteger(query.pageSize) || defaultPageSize, MAX_PAGE_SIZE),
+  };
+}
+
+/**
+ * Describes one page of a result set whose items have already been selected (e.g. by the backend).
+ */
+export function toPage<T>(items: T[], totalItems: number, request: PageRequest): Page<T> {
+  const totalPages = Math.max(1, Math.ceil(totalItems / request.pageSize));
+  const from = items.length > 0 ? (request.page - 1) * request.pageSize + 1 : 0;
+
+  return {
+    items,
+    page: request.page,
+    pageSize: request.pageSize,
+    totalItems,
+    totalPages,
+    from,
+    to: items.length > 0 ? from + items.length - 1 : 0,
+  };
+}
+
+/**
+ * Pages a full result set in memory. Requests beyond the last page return the last page.
+ */
+export function paginate<T>(items: T[], request: PageRequest): Page<T> {
+  const totalPages = Math.max(1, Math.ceil(items.length / request.pageSize));
+  const page = Math.min(request.page, totalPages);
+  const start = (page - 1) * request.pageSize;
+
+  return toPage(items.slice(start, start + request.pageSize), items.length, { ...request, page });
+}
+
+/**
+ * Builds govukPagination parameters, showing the first, last and neighbouring pages
+ * with ellipses in between. Other query parameters are kept in every link.
+ */
+export function buildPagination(page: Page<unknown>, baseUrl: string, baseParams: URLSearchParams): PaginationParams {
+  const hrefFor = (pageNumber: number): string => {
+    const params = new URLSearchParams(baseParams);
+    params.set('page', String(pageNumber));
+    return `${baseUrl}?${params.toString()}`;
+  };
+
+  const items: PaginationItem[] = [];
+  for (let pageNumber = 1; pageNumber <= page.totalPages; pageNumber++) {
+    const isEdge = pageNumber === 1 || pageNumber === page.totalPages;
+    if (isEdge || Math.abs(pageNumber - page.page) <= 1) {
+      items.push({ number: pageNumber, href: hrefFor(pageNumber), current: pageNumber === page.page });
+    } else if (!items[items.length - 1]?.ellipsis) {
+      items.push({ ellipsis: true });
+    }
+  }
+
+  return {
+    previous: page.page > 1 ? { href: hrefFor(page.page - 1) } : undefined,
+    next: page.page < page.totalPages ? { href: hrefFor(page.page + 1) } : undefined,
+    items,
+  };
+}
@@ -0,0 +1,23 @@
+export const MIN_PASSWORD_LENGTH = 12;
+export const MAX_PASSWORD_LENGTH = 128;
+
+/**
+ * Checks a new password against the strength rules and returns the first problem, worded for the GOV.UK error
+ * summary, or undefined when the password is strong enough. Length matters more than complexity, so the only other
+ * rule is a mix of letters and numbers.
+ */
+export function checkPasswordStrength(password: unknown): string | undefined {
+  if (typeof password !== 'string' || password === '') {
+    return 'Enter a new password';
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be ${MIN_PASSWORD_LENGTH} characters or more`;
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    return `Password must be ${MAX_PASSWORD_LENGTH} characters or fewer`;
+  }
+  if (!/[A-Za-z]/.test(password) || !/\d/.test(password)) {
+    return 'Password must include at least one letter and one number';
+  }
+  return undefined;
+}
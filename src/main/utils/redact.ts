@@ -0,0 +1,102 @@
+export interface RedactionOptions {
+  enabled: boolean;
+  /** Replace email addresses with a masked form such as `t***@example.com` */
+  maskEmails: boolean;
+  /** Keys whose values are dropped wherever they appear; matched case-insensitively as substrings */
+  keys: string[];
+}
+
+export const DEFAULT_REDACTION: RedactionOptions = {
+  enabled: true,
+  maskEmails: true,
+  keys: ['password', 'token', 'authorization', 'cookie', 'secret'],
+};
+
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+const MAX_DEPTH = 10;
+
+interface AxiosLikeError extends Error {
+  isAxiosError: true;
+  code?: string;
+  config?: { method?: string; url?: string };
+  response?: { status?: number };
+}
+
+function isAxiosError(value: unknown): value is AxiosLikeError {
+  return !!value && typeof value === 'object' && (value as AxiosLikeError).isAxiosError === true;
+}
+
+/**
+ * Masks every email address in the text, keeping the first character and the domain.
+ */
+export function maskEmails(text: string): string {
+  return text.replace(EMAIL_PATTERN, '$1***@$2');
+}
+
+/**
+ * Reduces an error to the fields worth logging. Axios errors carry the request config, including the
+ * Authorization header, and the raw response, so only the method, URL, status and code are kept.
+ */
+export function serialiseError(error: Error): Record<string, unknown> {
+  if (isAxiosError(error)) {
+    return {
+      name: error.name,
+      message: error.message,
+      code: error.code,
+      method: error.config?.method?.toUpperCase(),
+      // Query strings can carry tokens, so only the path is logged
+      url: error.config?.url?.split('?')[0],
+      status: error.response?.status,
+    };
+  }
+  return { name: error.name, message: error.message };
+}
+
+/**
+ * Returns a copy of the value that is safe to log: sensitive keys are dropped at any depth, email addresses are
+ * masked and errors are serialised. Circular references are replaced rather than followed.
+ */
+export function redact(value: unknown, options: RedactionOptions = DEFAULT_REDACTION): unknown {
+  if (!options.enabled) {
+    return value;
+  }
+
+  const sensitiveKeys = options.keys.map(key => key.toLowerCase());
+  const seen = new WeakSet<object>();
+
+  const visit = (current: unknown, depth: number): unknown => {
+    if (typeof current === 'string') {
+      return options.maskEmails ? maskEmails(current) : current;
+    }
+    if (!current || typeof current !== 'object') {
+      return current;
+    }
+    if (seen.has(current)) {
+      return '[Circular]';
+    }
+    if (depth >= MAX_DEPTH) {
+      return '[Truncated]';
+    }
+    seen.add(current);
+
+    if (current instanceof Error) {
+      return visit(serialiseError(current), depth + 1);
+    }
+    if (current instanceof Date) {
+      return current.toISOString();
+    }
+    if (Array.isArray(current)) {
+      return current.map(item => visit(item, depth + 1));
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, nested] of Object.entries(current)) {
+      if (!sensitiveKeys.some(sensitive => key.toLowerCase().includes(sensitive))) {
+        result[key] = visit(nested, depth + 1);
+      }
+    }
+    return result;
+  };
+
+  return visit(value, 0);
+}
@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs the callback with the given context, which stays available to everything it calls, including across
+ * awaits and callbacks.
+ */
+export function runWithRequestContext<T>(context: RequestContext, callback: () => T): T {
+  return storage.run(context, callback);
+}
+
+/**
+ * Returns the ID of the request currently being handled, or undefined outside a request (for example at startup).
+ */
+export function getRequestId(): string | undefined {
+  return storage.getStore()?.requestId;
+}
+
+/**
+ * Headers that pass the current request ID on to the backend, so its logs can be matched to ours.
+ */
+export function requestIdHeaders(): Record<string, string> {
+  const requestId = getRequestId();
+  return requestId ? { 'X-Request-Id': requestId } : {};
+}
@@ -0,0 +1,27 @@
+/**
+ * Converts a Retry-After header, given either as a number of seconds or as an HTTP date, into seconds from now.
+ * Returns undefined when the header is missing, malformed or already in the past.
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value || value.trim() === '') {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  const seconds = /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : Math.ceil((Date.parse(trimmed) - now) / 1000);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+}
+
+/**
+ * Formats a wait as "4 minutes", "1 hour" or "30 seconds". Longer waits are rounded up, so users are never told to
+ * try again before they can.
+ */
+export function formatWait(seconds: number): string {
+  const [amount, unit] =
+    seconds >= 3600
+      ? [Math.ceil(seconds / 3600), 'hour']
+      : seconds >= 60
+        ? [Math.ceil(seconds / 60), 'minute']
+        : [seconds, 'second'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,38 @@
+const MAX_RETURN_PATH_LENGTH = 2000;
+
+const PLACEHOLDER_ORIGIN = 'http://localhost';
+
+/**
+ * Returns the path if it is safe to redirect to after sign-in, otherwise undefined.
+ * Only same-origin paths are accepted: absolute URLs, protocol-relative URLs (//host) and
+ * backslash variants that browsers treat as such (/\host) are rejected to prevent open redirects.
+ */
+export function toSafeReturnPath(value: unknown): string | undefined {
+  if (typeof value !== 'string' || value.length > MAX_RETURN_PATH_LENGTH) {
+    return undefined;
+  }
+  // eslint-disable-next-line no-control-regex
+  if (!value.startsWith('/') || value.startsWith('//') || value.includes('\\') || /[\u0000-\u001f]/.test(value)) {
+    return undefined;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value, PLACEHOLDER_ORIGIN);
+  } catch {
+    return undefined;
+  }
+  if (url.origin !== PLACEHOLDER_ORIGIN) {
+    return undefined;
+  }
+  // Dot segments are resolved while parsing, so /..//host only becomes protocol-relative here
+  if (url.pathname.startsWith('//') || url.pathname.startsWith('/\\')) {
+    return undefined;
+  }
+  // Returning to a sign-in page would only start the journey again
+  if (url.pathname.startsWith('/auth/')) {
+    return undefined;
+  }
+
+  return url.pathname + url.search;
+}
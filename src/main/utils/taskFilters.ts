@@ -0,0 +1,112 @@
+import { TaskStatus } from '../services/taskService';
+import { isTaskStatus } from './taskStatusTransitions';
+
+export type DueState = 'overdue' | 'dueToday' | 'upcoming';
+
+export const DUE_STATES: DueState[] = ['overdue', 'dueToday', 'upcoming'];
+
+export interface TaskFilters {
+  statuses: TaskStatus[];
+  due: DueState[];
+  search: string;
+}
+
+interface FilterableTask {
+  title?: string;
+  description?: string;
+  status?: string;
+  overdue?: boolean;
+  dueToday?: boolean;
+}
+
+const MAX_SEARCH_LENGTH = 200;
+
+function toStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  return typeof value === 'string' && value !== '' ? value.split(',') : [];
+}
+
+function isDueState(value: string): value is DueState {
+  return (DUE_STATES as string[]).includes(value);
+}
+
+function getDueState(task: FilterableTask): DueState {
+  if (task.overdue) {
+    return 'overdue';
+  }
+  return task.dueToday ? 'dueToday' : 'upcoming';
+}
+
+/**
+ * Reads task list filters from the query string, dropping any unknown values.
+ * Repeated keys (status=PENDING&status=COMPLETED) and comma separated values are both accepted.
+ */
+export function parseTaskFilters(query: Record<string, unknown>): TaskFilters {
+  const search = typeof query.search === 'string' ? query.search.trim().slice(0, MAX_SEARCH_LENGTH) : '';
+
+  return {
+    statuses: [...new Set(toStringArray(query.status).filter(isTaskStatus))],
+    due: [...new Set(toStringArray(query.due).filter(isDueState))],
+    search,
+  };
+}
+
+export function hasActiveFilters(filters: TaskFilters): boolean {
+  return filters.statuses.length > 0 || filters.due.length > 0 || filters.search !== '';
+}
+
+/**
+ * Converts filters into query parameters understood by the backend task search.
+ */
+export function toBackendParams(filters: TaskFilters): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (filters.statuses.length > 0) {
+    params.status = filters.statuses.join(',');
+  }
+  if (filters.due.length > 0) {
+    params.due = filters.due.join(',');
+  }
+  if (filters.search) {
+    params.search = filters.search;
+  }
+  return params;
+}
+
+/**
+ * Converts filters back into query parameters so filtered views can be bookmarked and shared.
+ */
+export function toQueryParams(filters: TaskFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  filters.statuses.forEach(status => params.append('status', status));
+  filters.due.forEach(due => params.append('due', due));
+  if (filters.search) {
+    params.append('search', filters.search);
+  }
+  return params;
+}
+
+/**
+ * Filters tasks in memory, for backends that do not support filtering themselves.
+ */
+export function applyTaskFilters<T extends FilterableTask>(tasks: T[], filters: TaskFilters): T[] {
+  const search = filters.search.toLowerCase();
+
+  return tasks.filter(task => {
+    if (filters.statuses.length > 0 && !filters.statuses.includes(task.status as TaskStatus)) {
+      return false;
+    }
+    if (filters.due.length > 0 && !filters.due.includes(getDueState(task))) {
+      return false;
+    }
+    if (
+      search &&
+      !(task.title || '').toLowerCase().includes(search) &&
+      !(task.description || '').toLowerCase().includes(search)
+    ) {
+      return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,107 @@
+import { TaskStatus } from '../services/taskService';
+import { TASK_STATUSES } from './taskStatusTransitions';
+
+export type SortField = 'dueDateTime' | 'createdAt' | 'title' | 'status';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface TaskSort {
+  field: SortField;
+  order: SortOrder;
+}
+
+export interface SortColumn {
+  field: SortField;
+  label: string;
+  href: string;
+  /** How the list is sorted by this field, when it is the current sort */
+  sorted?: 'ascending' | 'descending';
+}
+
+interface SortableTask {
+  title?: string;
+  status?: string;
+  dueDateTime?: string;
+  createdAt?: string;
+  overdue?: boolean;
+}
+
+export const DEFAULT_SORT: TaskSort = { field: 'dueDateTime', order: 'asc' };
+
+const SORT_FIELDS: SortField[] = ['dueDateTime', 'createdAt', 'title', 'status'];
+
+const columnLabels: Record<SortField, string> = {
+  title: 'Title',
+  status: 'Status',
+  dueDateTime: 'Due date',
+  createdAt: 'Created',
+};
+
+function isSortField(value: unknown): value is SortField {
+  return typeof value === 'string' && (SORT_FIELDS as string[]).includes(value);
+}
+
+function compareValues(a: string, b: string, field: SortField): number {
+  switch (field) {
+    case 'title':
+      return a.localeCompare(b, 'en-GB', { sensitivity: 'base' });
+    case 'status':
+      return TASK_STATUSES.indexOf(a as TaskStatus) - TASK_STATUSES.indexOf(b as TaskStatus);
+    default:
+      // ISO-8601 timestamps sort correctly as strings
+      return a === b ? 0 : a < b ? -1 : 1;
+  }
+}
+
+/**
+ * Reads the requested sort from the query string, falling back to the nearest due date first.
+ */
+export function parseTaskSort(query: Record<string, unknown>): TaskSort {
+  if (!isSortField(query.sort)) {
+    return DEFAULT_SORT;
+  }
+  return { field: query.sort, order: query.order === 'desc' ? 'desc' : 'asc' };
+}
+
+/**
+ * Sorts tasks by the requested field. Overdue tasks always appear first so they are never
+ * pushed out of sight by the chosen sort.
+ */
+export function sortTasks<T extends SortableTask>(tasks: T[], sort: TaskSort): T[] {
+  const direction = sort.order === 'desc' ? -1 : 1;
+
+  return [...tasks].sort((a, b) => {
+    if (!!a.overdue !== !!b.overdue) {
+      return a.overdue ? -1 : 1;
+    }
+
+    const aValue = a[sort.field];
+    const bValue = b[sort.field];
+    // Tasks missing the sort value go last, whichever the order
+    if (!aValue || !bValue) {
+      return aValue === bValue ? 0 : aValue ? -1 : 1;
+    }
+
+    return compareValues(aValue, bValue, sort.field) * direction;
+  });
+}
+
+/**
+ * Builds the sort links, keeping any other query parameters (such as filters)
+ * in each link so sorting works without JavaScript.
+ */
+export function buildSortColumns(sort: TaskSort, baseParams: URLSearchParams): SortColumn[] {
+  return SORT_FIELDS.map(field => {
+    const active = sort.field === field;
+    const params = new URLSearchParams(baseParams);
+    params.set('sort', field);
+    params.set('order', active && sort.order === 'asc' ? 'desc' : 'asc');
+
+    return {
+      field,
+      label: columnLabels[field],
+      href: `/tasks?${params.toString()}`,
+      sorted: active ? (sort.order === 'asc' ? 'ascending' : 'descending') : undefined,
+    };
+  });
+}
@@ -0,0 +1,43 @@
+import { TaskStatus } from '../services/taskService';
+
+export const TASK_STATUSES: TaskStatus[] = ['PENDING', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'];
+
+const allowedTransitions: Record<TaskStatus, TaskStatus[]> = {
+  PENDING: ['IN_PROGRESS', 'COMPLETED', 'CANCELLED'],
+  IN_PROGRESS: ['PENDING', 'COMPLETED', 'CANCELLED'],
+  COMPLETED: ['PENDING', 'IN_PROGRESS'],
+  CANCELLED: ['PENDING'],
+};
+
+const statusLabels: Record<TaskStatus, string> = {
+  PENDING: 'pending',
+  IN_PROGRESS: 'in progress',
+  COMPLETED: 'completed',
+  CANCELLED: 'cancelled',
+};
+
+export function isTaskStatus(value: unknown): value is TaskStatus {
+  return typeof value === 'string' && (TASK_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Checks whether a task may move from one status to another.
+ * Reopening a cancelled task additionally requires a reason.
+ *
+ * @returns An error message suitable for display, or undefined if the transition is allowed
+ */
+export function validateStatusTransition(from: TaskStatus, to: TaskStatus, reason?: string): string | undefined {
+  if (from === to) {
+    return `Task is already ${statusLabels[to]}`;
+  }
+
+  if (!allowedTransitions[from].includes(to)) {
+    return `Tasks that are ${statusLabels[from]} cannot be marked as ${statusLabels[to]}`;
+  }
+
+  if (from === 'CANCELLED' && (!reason || reason.trim() === '')) {
+    return 'Enter a reason for reopening a cancelled task';
+  }
+
+  return undefined;
+}
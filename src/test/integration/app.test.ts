@@ -70,6 +70,25 @@ describe('App Integration Tests', () => {
       expect(response.headers['content-security-policy']).toBeDefined();
     });
 
+    it('should not allow inline or eval scripts in the Content-Security-Policy', async () => {
+      const response = await request(app).get('/non-existent-route');
+      const csp = response.headers['content-security-policy'];
+
+      expect(csp).not.toContain('unsafe-inline');
+      expect(csp).not.toContain('unsafe-eval');
+      expect(csp).toContain('report-uri /csp-report');
+    });
+
+    it('should use a fresh nonce that matches the page scripts', async () => {
+      const first = await request(app).get('/non-existent-route');
+      const second = await request(app).get('/non-existent-route');
+
+      const nonce = /script-src 'self' 'nonce-([^']+)'/.exec(first.headers['content-security-policy'])?.[1];
+      expect(nonce).toBeDefined();
+      expect(first.text).toContain(`<script nonce="${nonce}">`);
+      expect(second.headers['content-security-policy']).not.toContain(nonce);
+    });
+
     it('should set Strict-Transport-Security header', async () => {
       const response = await request(app).get('/');
       expect(response.headers['strict-transport-security']).toBeDefined();
@@ -77,6 +96,23 @@ describe('App Integration Tests', () => {
     });
   });
 
+  describe('Request IDs', () => {
+    it('should generate a request ID when none is sent', async () => {
+      const response = await request(app).get('/non-existent-route');
+      expect(response.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it('should echo a valid incoming request ID', async () => {
+      const response = await request(app).get('/non-existent-route').set('X-Request-Id', 'req-123');
+      expect(response.headers['x-request-id']).toBe('req-123');
+    });
+
+    it('should show the request ID as a reference on error pages', async () => {
+      const response = await request(app).get('/non-existent-route').set('X-Request-Id', 'req-123');
+      expect(response.text).toContain('quote reference <strong>req-123</strong>');
+    });
+  });
+
   describe('404 Handler', () => {
     it('should return 404 for non-existent routes', async () => {
       const response = await request(app).get('/this-route-does-not-exist');
@@ -0,0 +1,119 @@
+import { app } from '../../main/app';
+import { logger } from '../../main/utils/logger';
+
+import request from 'supertest';
+
+jest.mock('../../main/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    getLevels: jest.fn(() => ({ console: 'info', file: 'warn' })),
+    setLevel: jest.fn(),
+  },
+}));
+
+let mockAdminToken = 'admin-secret';
+
+jest.mock('config', () => ({
+  has: jest.fn(() => true),
+  get: jest.fn((key: string) => {
+    if (key === 'services.backend') {
+      return { url: 'http://localhost:4000', timeout: 10000 };
+    }
+    if (key === 'admin.apiToken') {
+      return mockAdminToken;
+    }
+    return null;
+  }),
+}));
+
+describe('Admin Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAdminToken = 'admin-secret';
+  });
+
+  describe('GET /admin/log-level', () => {
+    it('should return the level of each transport', async () => {
+      const response = await request(app).get('/admin/log-level').set('Authorization', 'Bearer admin-secret');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ levels: { console: 'info', file: 'warn' } });
+    });
+
+    it('should reject a missing or wrong token', async () => {
+      const missing = await request(app).get('/admin/log-level');
+      const wrong = await request(app).get('/admin/log-level').set('Authorization', 'Bearer guess');
+
+      expect(missing.status).toBe(401);
+      expect(wrong.status).toBe(401);
+      expect(wrong.headers['www-authenticate']).toBe('Bearer');
+    });
+
+    it('should not exist when no token is configured', async () => {
+      mockAdminToken = '';
+
+      const response = await request(app).get('/admin/log-level').set('Authorization', 'Bearer ');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PUT /admin/log-level', () => {
+    it('should change the level of every transport without a CSRF token', async () => {
+      const response = await request(app)
+        .put('/admin/log-level')
+        .set('Authorization', 'Bearer admin-secret')
+        .send({ level: 'debug' });
+
+      expect(response.status).toBe(200);
+      expect(logger.setLevel).toHaveBeenCalledWith('debug', undefined);
+    });
+
+    it('should change the level of a single transport', async () => {
+      await request(app)
+        .put('/admin/log-level')
+        .set('Authorization', 'Bearer admin-secret')
+        .send({ level: 'error', transport: 'file' });
+
+      expect(logger.setLevel).toHaveBeenCalledWith('error', 'file');
+    });
+
+    it('should reject an unknown level or transport', async () => {
+      const badLevel = await request(app)
+        .put('/admin/log-level')
+        .set('Authorization', 'Bearer admin-secret')
+        .send({ level: 'verbose' });
+      const badTransport = await request(app)
+        .put('/admin/log-level')
+        .set('Authorization', 'Bearer admin-secret')
+        .send({ level: 'debug', transport: 'syslog' });
+
+      expect(badLevel.status).toBe(400);
+      expect(badTransport.status).toBe(400);
+      expect(logger.setLevel).not.toHaveBeenCalled();
+    });
+
+    it.each(['toString', 'constructor', '__proto__'])(
+      'should reject the inherited property %s as a transport',
+      async name => {
+        const response = await request(app)
+          .put('/admin/log-level')
+          .set('Authorization', 'Bearer admin-secret')
+          .send({ level: 'debug', transport: name });
+
+        expect(response.status).toBe(400);
+        expect(logger.setLevel).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should not change the level without a valid token', async () => {
+      const response = await request(app).put('/admin/log-level').send({ level: 'debug' });
+
+      expect(response.status).toBe(401);
+      expect(logger.setLevel).not.toHaveBeenCalled();
+    });
+  });
+});
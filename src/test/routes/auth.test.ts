@@ -0,0 +1,638 @@
+import { app } from '../../main/app';
+
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+// Mock CSRF
+jest.mock('csurf', () => {
+  return jest.fn(() => (req: { csrfToken?: () => string }, res: unknown, next: () => void) => {
+    req.csrfToken = () => 'mock-csrf-token';
+    next();
+  });
+});
+
+// Mock logger
+jest.mock('../../main/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+// Mock config
+jest.mock('config', () => ({
+  has: jest.fn(() => true),
+  get: jest.fn((key: string) => {
+    if (key === 'services.backend') {
+      return {
+        url: 'http://localhost:4000',
+        timeout: 10000,
+      };
+    }
+    if (key === 'session.idleTimeout') {
+      return 900000;
+    }
+    if (key === 'session.timeoutWarning') {
+      return 120000;
+    }
+    if (key === 'auth.jwt.secret') {
+      return 'test-secret';
+    }
+    // Every test signs in from the same address as the same user, which would otherwise exhaust the limiters
+    if (key === 'rateLimiting.max') {
+      return 1000;
+    }
+    if (key === 'rateLimiting.limiters') {
+      return { login: { max: 1000 } };
+    }
+    return null;
+  }),
+}));
+
+const jwtToken = jwt.sign(
+  { sub: 'user-1', name: 'Test User', email: 'test@example.com', roles: ['caseworker'] },
+  'test-secret',
+  { expiresIn: '1h' }
+);
+
+describe('Auth Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const signedInAgent = async () => {
+    const agent = request.agent(app);
+    mockedAxios.post
+      .mockResolvedValueOnce({ data: { success: true, emailValidated: true } })
+      .mockResolvedValueOnce({ data: { success: true, token: jwtToken } });
+    await agent.post('/auth/validate-email').type('form').send({ email: 'test@example.com' });
+    await agent.post('/auth/authenticate').type('form').send({ password: 'Password1!' });
+    return agent;
+  };
+
+  describe('Session timeout', () => {
+    it('should roll the session cookie forward by the idle timeout', async () => {
+      const agent = await signedInAgent();
+      mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+
+      const response = await agent.get('/');
+
+      const cookie = ([] as string[]).concat(response.headers['set-cookie'] || []).join(';');
+      expect(cookie).toContain('connect.sid');
+      const expires = new Date(/Expires=([^;]+)/.exec(cookie)![1]).getTime();
+      expect(expires - Date.now()).toBeGreaterThan(880000);
+      expect(expires - Date.now()).toBeLessThanOrEqual(900000);
+    });
+
+    it('should render the timeout warning for signed in users', async () => {
+      const agent = await signedInAgent();
+      mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+
+      const response = await agent.get('/');
+
+      expect(response.text).toContain('data-module="app-timeout-warning"');
+      expect(response.text).toContain('data-idle-timeout="900"');
+      expect(response.text).toContain('data-warning-before="120"');
+      expect(response.text).toContain('Stay signed in');
+    });
+
+    it('should not render the timeout warning for signed out users', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+
+      const response = await request(app).get('/');
+
+      expect(response.text).not.toContain('data-module="app-timeout-warning"');
+    });
+  });
+
+  describe('POST /auth/keep-alive', () => {
+    it('should keep a signed in session alive', async () => {
+      const agent = await signedInAgent();
+
+      const response = await agent.post('/auth/keep-alive');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ signedIn: true, expiresIn: 900 });
+    });
+
+    it('should return 401 when the session has already ended', async () => {
+      const response = await request(app).post('/auth/keep-alive');
+
+      expect(response.status).toBe(401);
+      expect(response.body).toEqual({ signedIn: false });
+    });
+  });
+
+  describe('GET /auth/session-status', () => {
+    it('should report the time left without extending the session', async () => {
+      const agent = await signedInAgent();
+      const now = Date.now();
+      const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now + 60 * 1000);
+
+      try {
+        const first = await agent.get('/auth/session-status');
+        const second = await agent.get('/auth/session-status');
+
+        expect(first.status).toBe(200);
+        expect(first.body.signedIn).toBe(true);
+        expect(first.body.expiresIn).toBeLessThanOrEqual(840);
+        expect(second.body.expiresIn).toBeLessThanOrEqual(840);
+      } finally {
+        dateNow.mockRestore();
+      }
+    });
+
+    it('should return 401 when the session has already ended', async () => {
+      const response = await request(app).get('/auth/session-status');
+
+      expect(response.status).toBe(401);
+      expect(response.body).toEqual({ signedIn: false });
+    });
+  });
+
+  describe('Sign out', () => {
+    it('should ask for confirmation without signing out', async () => {
+      const agent = await signedInAgent();
+      mockedAxios.post.mockClear();
+
+      const response = await agent.get('/auth/logout');
+
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('Are you sure you want to sign out?');
+      expect(response.text).toContain('name="_csrf" value="mock-csrf-token"');
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
+    it('should redirect to the login page when already signed out', async () => {
+      const response = await request(app).get('/auth/logout');
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('/auth/login');
+    });
+
+    it('should sign out with the backend and end the session', async () => {
+      const agent = await signedInAgent();
+      mockedAxios.post.mockResolvedValueOnce({ data: { success: true } });
+
+      const response = await agent.post('/auth/logout').type('form').send({ _csrf: 'mock-csrf-token' });
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('/auth/login');
+      expect(mockedAxios.post).toHaveBeenLastCalledWith(
+        'http://localhost:4000/api/auth/logout',
+        { token: jwtToken },
+        expect.any(Object)
+      );
+
+      const keepAlive = await agent.post('/auth/keep-alive');
+      expect(keepAlive.status).toBe(401);
+    });
+
+    it('should render sign out in the header as a form post', async () => {
+      const agent = await signedInAgent();
+      mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+
+      const response = await agent.get('/');
+
+      expect(response.text).toContain('<form method="post" action="/auth/logout"');
+      expect(response.text).not.toContain('href="/auth/logout"');
+      // A form inside a paragraph is invalid HTML
+      expect(response.text).toContain('<div class="govuk-phase-banner__content">');
+    });
+  });
+
+  describe('Lockout and retry-after', () => {
+    const backendError = (status: number, headers: Record<string, string> = {}) => ({
+      response: { status, headers, data: { message: 'Backend message' } },
+    });
+
+    const passwordPageAgent = async () => {
+      const agent = request.agent(app);
+      mockedAxios.post.mockResolvedValueOnce({ data: { success: true, emailValidated: true } });
+      await agent.post('/auth/validate-email').type('form').send({ email: 'test@example.com' });
+      return agent;
+    };
+
+    it('should say how long to wait when attempts are rate limited', async () => {
+      const agent = await passwordPageAgent();
+      mockedAxios.post.mockRejectedValueOnce(backendError(429, { 'retry-after': '240' }));
+
+      await agent.post('/auth/authenticate').type('form').send({ password: 'wrong' });
+      const response = await agent.get('/auth/password');
+
+      expect(response.text).toContain('Too many attempts. Try again in 4 minutes.');
+      expect(response.text).toMatch(/data-retry-after="(239|240)"/);
+    });
+
+    it('should show a distinct message when the account is locked', async () => {
+      const agent = await passwordPageAgent();
+      mockedAxios.post.mockRejectedValueOnce(backendError(423, { 'retry-after': '1800' }));
+
+      await agent.post('/auth/authenticate').type('form').send({ password: 'wrong' });
+      const response = await agent.get('/auth/password');
+
+      expect(response.text).toContain(
+        'Your account has been locked after too many failed sign-in attempts. Try again in 30 minutes.'
+      );
+      expect(response.text).not.toContain('Too many attempts');
+    });
+
+    it('should ask locked users without a retry time to contact an administrator', async () => {
+      const agent = await passwordPageAgent();
+      mockedAxios.post.mockRejectedValueOnce(backendError(423));
+
+      await agent.post('/auth/authenticate').type('form').send({ password: 'wrong' });
+      const response = await agent.get('/auth/password');
+
+      expect(response.text).toContain('Contact your administrator to unlock it.');
+      expect(response.text).not.toContain('data-retry-after');
+    });
+
+    it('should hold back the email step while it is rate limited', async () => {
+      const agent = request.agent(app);
+      mockedAxios.post.mockRejectedValueOnce(backendError(429, { 'retry-after': '45' }));
+
+      await agent.post('/auth/validate-email').type('form').send({ email: 'test@example.com' });
+      const response = await agent.get('/auth/login');
+
+      expect(response.text).toContain('Too many attempts. Try again in 45 seconds.');
+      expect(response.text).toMatch(/data-retry-after="4[45]"/);
+    });
+
+    it('should release the button when going back to change the email', async () => {
+      const agent = await passwordPageAgent();
+      mockedAxios.post.mockRejectedValueOnce(backendError(423, { 'retry-after': '1800' }));
+      await agent.post('/auth/authenticate').type('form').send({ password: 'wrong' });
+
+      await agent.post('/auth/back-to-email').type('form').send({});
+      const response = await agent.get('/auth/login');
+
+      expect(response.text).not.toContain('data-retry-after');
+    });
+  });
+
+  describe('Forgotten password', () => {
+    it('should link to the forgotten password page from the password step', async () => {
+      const agent = request.agent(app);
+      mockedAxios.post.mockResolvedValueOnce({ data: { success: true, emailValidated: true } });
+      await agent.post('/auth/validate-email').type('form').send({ email: 'test@example.com' });
+
+      const response = await agent.get('/auth/password');
+
+      expect(response.text).toContain('href="/auth/forgotten-password"');
+    });
+
+    it('should show an error summary for an invalid email without calling the backend', async () => {
+      const agent = request.agent(app);
+
+      await agent.post('/auth/forgotten-password').type('form').send({ email: 'not-an-email' });
+      const response = await agent.get('/auth/forgotten-password');
+
+      expect(response.text).toContain('There is a problem');
+      expect(response.text).toContain('Enter an email address in the correct format, like name@example.com');
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
+    it('should show the same confirmation whether or not the account exists', async () => {
+      const known = request.agent(app);
+      mockedAxios.post.mockResolvedValueOnce({ data: { message: 'Reset email sent' } });
+      const knownSubmit = await known.post('/auth/forgotten-password').type('form').send({ email: 'a@example.com' });
+      const knownPage = await known.get(knownSubmit.headers.location);
+
+      const unknown = request.agent(app);
+      mockedAxios.post.mockRejectedValueOnce({
+        response: { status: 404, headers: {}, data: { message: 'User not found' } },
+      });
+      const unknownSubmit = await unknown
+        .post('/auth/forgotten-password')
+        .type('form')
+        .send({ email: 'b@example.com' });
+      const unknownPage = await unknown.get(unknownSubmit.headers.location);
+
+      expect(knownSubmit.headers.location).toBe('/auth/forgotten-password/confirmation');
+      expect(unknownSubmit.headers.location).toBe(knownSubmit.headers.location);
+      expect(knownPage.text).toContain('Check your email');
+      // Apart from the email the user typed, only the per-request CSP nonce may differ
+      const normalise = (html: string) => html.replace(/[ab]@example\.com/g, 'EMAIL').replace(/nonce="[^"]+"/g, '');
+      expect(normalise(unknownPage.text)).toBe(normalise(knownPage.text));
+      expect(unknownPage.text).not.toContain('User not found');
+    });
+
+    it('should send the reset request to the backend', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { message: 'Reset email sent' } });
+
+      await request(app).post('/auth/forgotten-password').type('form').send({ email: ' test@example.com ' });
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:4000/api/auth/forgotten-password',
+        { email: 'test@example.com' },
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('Reset password', () => {
+    const openResetLink = async () => {
+      const agent = request.agent(app);
+      mockedAxios.post.mockResolvedValueOnce({ data: {} });
+      const response = await agent.get('/auth/reset-password/reset-token-123');
+      return { agent, response };
+    };
+
+    it('should move the token out of the URL once it is verified', async () => {
+      const { agent, response } = await openResetLink();
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('/auth/reset-password');
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://localhost:4000/api/auth/reset-password/verify',
+        { token: 'reset-token-123' },
+        expect.any(Object)
+      );
+
+      const form = await agent.get('/auth/reset-password');
+      expect(form.text).toContain('Create a new password');
+      expect(form.text).not.toContain('reset-token-123');
+    });
+
+    it('should show the expired page for a link the backend rejects', async () => {
+      mockedAxios.post.mockRejectedValueOnce({
+        response: { status: 410, headers: {}, data: { message: 'Token expired' } },
+      });
+
+      const response = await request(app).get('/auth/reset-password/old-token');
+
+      expect(response.status).toBe(404);
+      expect(response.text).toContain('Your password reset link has expired');
+      expect(response.text).toContain('href="/auth/forgotten-password"');
+    });
+
+    it('should show the expired page when no link has been opened', async () => {
+      const response = await request(app).get('/auth/reset-password');
+
+      expect(response.status).toBe(404);
+      expect(response.text).toContain('Your password reset link has expired');
+    });
+
+    it('should reject a weak password without calling the backend', async () => {
+      const { agent } = await openResetLink();
+      mockedAxios.post.mockClear();
+
+      await agent.post('/auth/reset-password').type('form').send({ password: 'short1', confirmPassword: 'short1' });
+      const response = await agent.get('/auth/reset-password');
+
+      expect(response.text).toContain('There is a problem');
+      expect(response.text).toContain('Password must be 12 characters or more');
+      expect(response.text).toContain('href="#password"');
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
+    it('should reject passwords that do not match', async () => {
+      const { agent } = await openResetLink();
+
+      await agent
+        .post('/auth/reset-password')
+        .type('form')
+        .send({ password: 'correct horse 1', confirmPassword: 'correct horse 2' });
+      const response = await agent.get('/auth/reset-password');
+
+      expect(response.text).toContain('Passwords do not match');
+      expect(response.text).toContain('href="#confirmPassword"');
+    });
+
+    it('should reset the password and return to sign in', async () => {
+      const { agent } = await openResetLink();
+      mockedAxios.post.mockResolvedValueOnce({ data: { message: 'Password reset' } });
+
+      const response = await agent
+        .post('/auth/reset-password')
+        .type('form')
+        .send({ password: 'correct horse 1', confirmPassword: 'correct horse 1' });
+      const login = await agent.get('/auth/login');
+
+      expect(response.headers.location).toBe('/auth/login');
+      expect(mockedAxios.post).toHaveBeenLastCalledWith(
+        'http://localhost:4000/api/auth/reset-password',
+        { token: 'reset-token-123', password: 'correct horse 1' },
+        expect.any(Object)
+      );
+      expect(login.text).toContain('Your password has been reset. Sign in with your new password.');
+
+      const reuse = await agent.get('/auth/reset-password');
+      expect(reuse.status).toBe(404);
+    });
+
+    it('should show the backend reason when it rejects the new password', async () => {
+      const { agent } = await openResetLink();
+      mockedAxios.post.mockRejectedValueOnce({
+        response: { status: 400, headers: {}, data: { message: 'Password was used recently' } },
+      });
+
+      await agent
+        .post('/auth/reset-password')
+        .type('form')
+        .send({ password: 'correct horse 1', confirmPassword: 'correct horse 1' });
+      const response = await agent.get('/auth/reset-password');
+
+      expect(response.text).toContain('Password was used recently');
+    });
+  });
+
+  describe('Two-factor sign-in', () => {
+    const passwordAccepted = async (twoFactorMethod = 'email') => {
+      const agent = request.agent(app);
+      mockedAxios.post.mockResolvedValueOnce({ data: { success: true, emailValidated: true } }).mockResolvedValueOnce({
+        data: { message: 'Code required', twoFactorRequired: true, challengeToken: 'challenge-1', twoFactorMethod },
+      });
+      await agent.post('/auth/validate-email').type('form').send({ email: 'test@example.com' });
+      const response = await agent.post('/auth/authenticate').type('form').send({ password: 'Password1!' });
+      return { agent, response };
+    };
+
+    const incorrectCode = () => ({
+      response: { status: 401, headers: {}, data: { message: 'Invalid code' } },
+    });
+
+    it('should ask for a code instead of signing in', async () => {
+      const { agent, response } = await passwordAccepted();
+
+      expect(response.headers.location).toBe('/auth/verify-code');
+
+      const page = await agent.get('/auth/verify-code');
+      expect(page.text).toContain('We have sent a security code to <strong>test@example.com</strong>');
+      expect(page.text).toContain('autocomplete="one-time-code"');
+      expect(page.text).toContain('Send a new code');
+    });
+
+    it('should not treat the user as signed in before the code is verified', async () => {
+      const { agent } = await passwordAccepted();
+
+      const tasks = await agent.get('/tasks');
+      const keepAlive = await agent.post('/auth/keep-alive');
+
+      expect(tasks.status).toBe(302);
+      expect(tasks.headers.location).toBe('/auth/verify-code');
+      expect(keepAlive.status).toBe(401);
+    });
+
+    it('should sign in once the code is verified', async () => {
+      const { agent } = await passwordAccepted();
+      mockedAxios.post.mockResolvedValueOnce({ data: { message: 'Verified', token: jwtToken } });
+
+      const response = await agent.post('/auth/verify-code').type('form').send({ code: '123 456' });
+
+      expect(response.headers.location).toBe('/tasks');
+      expect(mockedAxios.post).toHaveBeenLastCalledWith(
+        'http://localhost:4000/api/auth/verify-code',
+        { challengeToken: 'challenge-1', code: '123456' },
+        expect.any(Object)
+      );
+      const keepAlive = await agent.post('/auth/keep-alive');
+      expect(keepAlive.status).toBe(200);
+    });
+
+    it('should reject codes that are not 6 digits without calling the backend', async () => {
+      const { agent } = await passwordAccepted();
+      mockedAxios.post.mockClear();
+
+      await agent.post('/auth/verify-code').type('form').send({ code: '12345' });
+      const page = await agent.get('/auth/verify-code');
+
+      expect(page.text).toContain('Enter the security code using 6 digits');
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
+    it('should say how many attempts are left after an incorrect code', async () => {
+      const { agent } = await passwordAccepted();
+      mockedAxios.post.mockRejectedValueOnce(incorrectCode());
+
+      await agent.post('/auth/verify-code').type('form').send({ code: '000000' });
+      const page = await agent.get('/auth/verify-code');
+
+      expect(page.text).toContain('The security code is incorrect. You have 4 attempts left.');
+    });
+
+    it('should start sign-in again after too many incorrect codes', async () => {
+      const { agent } = await passwordAccepted();
+      for (let i = 0; i < 5; i++) {
+        mockedAxios.post.mockRejectedValueOnce(incorrectCode());
+        await agent.post('/auth/verify-code').type('form').send({ code: '000000' });
+      }
+
+      const page = await agent.get('/auth/verify-code');
+      const login = await agent.get('/auth/login');
+
+      expect(page.headers.location).toBe('/auth/login');
+      expect(login.text).toContain('You entered an incorrect security code too many times');
+    });
+
+    it('should not check more codes than allowed when they are submitted in parallel', async () => {
+      const { agent } = await passwordAccepted();
+      mockedAxios.post.mockClear();
+      // Slow responses keep every submission in flight at once
+      for (let i = 0; i < 5; i++) {
+        mockedAxios.post.mockImplementationOnce(
+          () => new Promise((resolve, reject) => setTimeout(() => reject(incorrectCode()), 50))
+        );
+      }
+
+      await Promise.all(
+        Array.from({ length: 8 }, () => agent.post('/auth/verify-code').type('form').send({ code: '000000' }))
+      );
+
+      expect(mockedAxios.post).toHaveBeenCalledTimes(5);
+    });
+
+    it('should email a new code on request', async () => {
+      const { agent } = await passwordAccepted();
+      mockedAxios.post.mockResolvedValueOnce({ data: {} });
+
+      const response = await agent.post('/auth/resend-code').type('form').send({});
+      const page = await agent.get('/auth/verify-code');
+
+      expect(response.headers.location).toBe('/auth/verify-code');
+      expect(mockedAxios.post).toHaveBeenLastCalledWith(
+        'http://localhost:4000/api/auth/resend-code',
+        { challengeToken: 'challenge-1' },
+        expect.any(Object)
+      );
+      expect(page.text).toContain('We have sent a new security code to test@example.com');
+    });
+
+    it('should not offer to resend codes from an authenticator app', async () => {
+      const { agent } = await passwordAccepted('totp');
+      mockedAxios.post.mockClear();
+
+      const page = await agent.get('/auth/verify-code');
+      await agent.post('/auth/resend-code').type('form').send({});
+
+      expect(page.text).toContain('authenticator app');
+      expect(page.text).not.toContain('Send a new code');
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
+    it('should send users without a pending sign-in to the login page', async () => {
+      const response = await request(app).get('/auth/verify-code');
+
+      expect(response.headers.location).toBe('/auth/login');
+    });
+  });
+
+  describe('Current user', () => {
+    it('should show the name from the token instead of the email', async () => {
+      const agent = await signedInAgent();
+      mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+
+      const response = await agent.get('/');
+
+      expect(response.text).toContain('Signed in as <strong>Test User</strong>');
+      expect(response.text).not.toContain('Signed in as <strong>test@example.com</strong>');
+    });
+
+    it('should not show a signed out user as signed in on pages that mention their email', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { message: 'Reset email sent' } });
+      const agent = request.agent(app);
+      await agent.post('/auth/forgotten-password').type('form').send({ email: 'test@example.com' });
+
+      const response = await agent.get('/auth/forgotten-password/confirmation');
+
+      expect(response.text).not.toContain('Signed in as');
+    });
+
+    it('should end the session before calling the backend once the token has expired', async () => {
+      const agent = request.agent(app);
+      const expiredToken = jwt.sign({ sub: 'user-1', exp: Math.floor(Date.now() / 1000) - 60 }, 'test-secret');
+      mockedAxios.post
+        .mockResolvedValueOnce({ data: { success: true, emailValidated: true } })
+        .mockResolvedValueOnce({ data: { success: true, token: expiredToken } });
+      await agent.post('/auth/validate-email').type('form').send({ email: 'test@example.com' });
+      await agent.post('/auth/authenticate').type('form').send({ password: 'Password1!' });
+
+      const response = await agent.get('/tasks');
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('/auth/login');
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+
+    it('should end the session when the token signature does not verify', async () => {
+      const agent = request.agent(app);
+      mockedAxios.post
+        .mockResolvedValueOnce({ data: { success: true, emailValidated: true } })
+        .mockResolvedValueOnce({ data: { success: true, token: jwt.sign({ sub: 'user-1' }, 'wrong-secret') } });
+      await agent.post('/auth/validate-email').type('form').send({ email: 'test@example.com' });
+      await agent.post('/auth/authenticate').type('form').send({ password: 'Password1!' });
+
+      const keepAlive = await agent.post('/auth/keep-alive');
+
+      expect(keepAlive.status).toBe(302);
+      expect(keepAlive.headers.location).toBe('/auth/login');
+    });
+  });
+});
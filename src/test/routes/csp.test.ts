@@ -0,0 +1,92 @@
+import { app } from '../../main/app';
+import { logger } from '../../main/utils/logger';
+
+import request from 'supertest';
+
+jest.mock('../../main/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('config', () => ({
+  has: jest.fn(() => true),
+  get: jest.fn((key: string) => {
+    if (key === 'services.backend') {
+      return { url: 'http://localhost:4000', timeout: 10000 };
+    }
+    return null;
+  }),
+}));
+
+describe('CSP Report Route', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should log a report-uri violation without needing a CSRF token', async () => {
+    const response = await request(app)
+      .post('/csp-report')
+      .set('Content-Type', 'application/csp-report')
+      .send(
+        JSON.stringify({
+          'csp-report': {
+            'document-uri': 'https://localhost:3100/tasks',
+            'violated-directive': 'script-src-elem',
+            'effective-directive': 'script-src-elem',
+            'blocked-uri': 'inline',
+            'source-file': 'https://localhost:3100/tasks',
+            'line-number': 12,
+          },
+        })
+      );
+
+    expect(response.status).toBe(204);
+    expect(logger.warn).toHaveBeenCalledWith('Content Security Policy violation', {
+      documentUri: 'https://localhost:3100/tasks',
+      violatedDirective: 'script-src-elem',
+      blockedUri: 'inline',
+      sourceFile: 'https://localhost:3100/tasks',
+      lineNumber: 12,
+    });
+  });
+
+  it('should log each violation in a Reporting API batch', async () => {
+    const response = await request(app)
+      .post('/csp-report')
+      .set('Content-Type', 'application/reports+json')
+      .send(
+        JSON.stringify([
+          {
+            type: 'csp-violation',
+            body: {
+              documentURL: 'https://localhost:3100/',
+              effectiveDirective: 'style-src-attr',
+              blockedURL: 'inline',
+            },
+          },
+          { type: 'deprecation', body: { id: 'something-else' } },
+        ])
+      );
+
+    expect(response.status).toBe(204);
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Content Security Policy violation',
+      expect.objectContaining({ violatedDirective: 'style-src-attr' })
+    );
+  });
+
+  it('should ignore bodies that are not violation reports', async () => {
+    const response = await request(app)
+      .post('/csp-report')
+      .set('Content-Type', 'application/csp-report')
+      .send(JSON.stringify({ hello: 'world' }));
+
+    expect(response.status).toBe(204);
+    expect(logger.warn).not.toHaveBeenCalledWith('Content Security Policy violation', expect.anything());
+  });
+});
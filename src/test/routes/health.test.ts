@@ -0,0 +1,137 @@
+import { app } from '../../main/app';
+
+import axios from 'axios';
+import request from 'supertest';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+// Mock CSRF
+jest.mock('csurf', () => {
+  return jest.fn(() => (req: unknown, res: unknown, next: () => void) => next());
+});
+
+// Mock logger
+jest.mock('../../main/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+// Mock config
+jest.mock('config', () => ({
+  has: jest.fn(() => true),
+  get: jest.fn((key: string) => {
+    if (key === 'services.backend') {
+      return {
+        url: 'http://localhost:4000',
+        timeout: 10000,
+        // Check the backend on every request so each test sees its own mocked response
+        health: { cacheTtl: 0 },
+      };
+    }
+    if (key === 'logging') {
+      return {
+        level: 'info',
+        prettyPrint: false,
+      };
+    }
+    return null;
+  }),
+}));
+
+describe('Health and info endpoints', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    app.locals.shutdown = false;
+  });
+
+  afterAll(() => {
+    app.locals.shutdown = false;
+  });
+
+  describe('GET /health/liveness', () => {
+    it('should report UP without calling the backend', async () => {
+      const response = await request(app).get('/health/liveness');
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('UP');
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /health/readiness', () => {
+    it('should report UP when the backend is healthy', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+
+      const response = await request(app).get('/health/readiness');
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('UP');
+      expect(response.body.shutdown.status).toBe('UP');
+      expect(response.body.backend).toEqual({ status: 'UP', backendStatus: 'UP' });
+      expect(mockedAxios.get).toHaveBeenCalledWith('http://localhost:4000/health', expect.any(Object));
+    });
+
+    it('should report DOWN when the backend is unreachable', async () => {
+      mockedAxios.get.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      const response = await request(app).get('/health/readiness');
+
+      expect(response.status).toBe(500);
+      expect(response.body.status).toBe('DOWN');
+      expect(response.body.backend.status).toBe('DOWN');
+    });
+
+    it('should stay UP when the backend is degraded', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { status: 'UP', components: { db: { status: 'UNKNOWN' } } } });
+
+      const response = await request(app).get('/health/readiness');
+
+      expect(response.status).toBe(200);
+      expect(response.body.backend).toEqual({ status: 'UP', backendStatus: 'DEGRADED' });
+    });
+
+    it('should report DOWN once shutdown has started', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+      app.locals.shutdown = true;
+
+      const response = await request(app).get('/health/readiness');
+
+      expect(response.status).toBe(500);
+      expect(response.body.shutdown.status).toBe('DOWN');
+    });
+  });
+
+  describe('GET /health', () => {
+    it('should include the checks and build information', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+
+      const response = await request(app).get('/health');
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('UP');
+      expect(response.body.backend.status).toBe('UP');
+      expect(response.body.buildInfo).toBeDefined();
+    });
+  });
+
+  describe('GET /info', () => {
+    it('should expose the build version and git commit', async () => {
+      const response = await request(app).get('/info');
+
+      expect(response.status).toBe(200);
+      expect(response.body.build).toBeDefined();
+      expect(response.body.extraBuildInfo).toEqual(
+        expect.objectContaining({
+          name: 'hmcts-dev-test-frontend',
+          version: expect.any(String),
+          commit: expect.any(String),
+        })
+      );
+    });
+  });
+});
@@ -29,6 +29,8 @@ jest.mock('config', () => ({
       return {
         url: 'http://localhost:4000',
         timeout: 10000,
+        // Check the backend on every request so each test sees its own mocked response
+        health: { cacheTtl: 0 },
       };
     }
     if (key === 'logging') {
@@ -54,13 +56,36 @@ describe('Home page', () => {
 
       const response = await request(app).get('/');
       expect(response.status).toBe(200);
+      expect(response.text).toContain('govuk-tag--green');
+      expect(response.text).toMatch(/\d+ ms/);
+    });
+
+    it('should check the backend health endpoint rather than an auth endpoint', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+
+      await request(app).get('/');
+
+      expect(mockedAxios.get).toHaveBeenCalledWith('http://localhost:4000/health', expect.any(Object));
+      expect(mockedAxios.get).not.toHaveBeenCalledWith(expect.stringContaining('/api/auth'), expect.anything());
+    });
+
+    it('should show DEGRADED when a backend component is not healthy', async () => {
+      mockedAxios.get.mockResolvedValue({
+        data: { status: 'UP', components: { db: { status: 'UP' }, diskSpace: { status: 'UNKNOWN' } } },
+      });
+
+      const response = await request(app).get('/');
+      expect(response.text).toContain('govuk-tag--yellow');
+      expect(response.text).toContain('DEGRADED');
     });
 
     it('should handle backend health check failures gracefully', async () => {
       mockedAxios.get.mockRejectedValue(new Error('Connection refused'));
 
       const response = await request(app).get('/');
-      expect(response.status).toBeGreaterThanOrEqual(200);
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('govuk-tag--red');
+      expect(response.text).toContain('Backend service is currently unavailable');
     });
   });
 });
@@ -0,0 +1,101 @@
+import { app } from '../../main/app';
+
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+jest.mock('csurf', () => {
+  return jest.fn(() => (req: { csrfToken?: () => string }, res: unknown, next: () => void) => {
+    req.csrfToken = () => 'mock-csrf-token';
+    next();
+  });
+});
+
+jest.mock('../../main/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('config', () => ({
+  has: jest.fn(() => true),
+  get: jest.fn((key: string) => {
+    if (key === 'services.backend') {
+      return { url: 'http://localhost:4000', timeout: 10000 };
+    }
+    if (key === 'rateLimiting.max') {
+      return 20;
+    }
+    if (key === 'rateLimiting.limiters') {
+      return { login: { max: 2 }, user: { max: 25 } };
+    }
+    return null;
+  }),
+}));
+
+describe('Rate limiting', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.post.mockResolvedValue({ data: { success: true, emailValidated: true } });
+  });
+
+  const validateEmail = (email: string) => request(app).post('/auth/validate-email').type('form').send({ email });
+
+  it('should limit sign-in attempts by IP and email', async () => {
+    await validateEmail('first@example.com');
+    await validateEmail('first@example.com');
+    const limited = await validateEmail('first@example.com');
+    const otherUser = await validateEmail('second@example.com');
+
+    expect(limited.status).toBe(429);
+    expect(otherUser.status).not.toBe(429);
+  });
+
+  it('should limit password reset emails to one address', async () => {
+    const forgottenPassword = () =>
+      request(app).post('/auth/forgotten-password').type('form').send({ email: 'victim@example.com' });
+
+    await forgottenPassword();
+    await forgottenPassword();
+    const limited = await forgottenPassword();
+
+    expect(limited.status).toBe(429);
+    expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not throttle probes', async () => {
+    mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+
+    const responses = [];
+    for (let i = 0; i < 25; i++) {
+      responses.push(await request(app).get('/health/liveness'));
+    }
+
+    expect(responses.map(response => response.status)).not.toContain(429);
+  });
+
+  it('should count signed-in users separately from the IP budget', async () => {
+    const agent = request.agent(app);
+    mockedAxios.post
+      .mockResolvedValueOnce({ data: { success: true, emailValidated: true } })
+      .mockResolvedValueOnce({ data: { success: true, token: jwt.sign({ sub: 'user-1' }, 'any-secret') } });
+    await agent.post('/auth/validate-email').type('form').send({ email: 'user@example.com' });
+    await agent.post('/auth/authenticate').type('form').send({ password: 'Password1!' });
+    mockedAxios.get.mockResolvedValue({ data: [] });
+
+    const statuses: number[] = [];
+    for (let i = 0; i < 26; i++) {
+      statuses.push((await agent.get('/tasks')).status);
+    }
+
+    // More than the anonymous budget of 20 gets through, until the user budget of 25 runs out
+    expect(statuses.slice(0, 25)).not.toContain(429);
+    expect(statuses[25]).toBe(429);
+  });
+});
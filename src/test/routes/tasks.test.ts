@@ -21,6 +21,12 @@ jest.mock('../../main/middleware/auth', () => ({
   },
   redirectIfAuthenticated: (req: any, res: any, next: () => void) => next(),
   clearAuth: (req: any, res: any, next: () => void) => next(),
+  expireSession: jest.requireActual('../../main/middleware/auth').expireSession,
+}));
+
+// The mocked session token above is not a JWT, so there is no current user to build from it
+jest.mock('../../main/middleware/currentUser', () => ({
+  currentUser: () => (req: unknown, res: unknown, next: () => void) => next(),
 }));
 
 // Mock logger
@@ -36,28 +42,33 @@ jest.mock('../../main/utils/logger', () => ({
 import { logger } from '../../main/utils/logger';
 
 // Mock config
+function mockConfigGet(key: string) {
+  if (key === 'services.backend') {
+    return {
+      url: 'http://localhost:4000',
+      timeout: 10000,
+    };
+  }
+  if (key === 'logging') {
+    return {
+      level: 'info',
+      prettyPrint: false,
+    };
+  }
+  return null;
+}
+
 jest.mock('config', () => ({
   has: jest.fn(() => true),
-  get: jest.fn((key: string) => {
-    if (key === 'services.backend') {
-      return {
-        url: 'http://localhost:4000',
-        timeout: 10000,
-      };
-    }
-    if (key === 'logging') {
-      return {
-        level: 'info',
-        prettyPrint: false,
-      };
-    }
-    return null;
-  }),
+  get: jest.fn((key: string) => mockConfigGet(key)),
 }));
 
+import config from 'config';
+
 describe('Tasks Routes', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (config.get as jest.Mock).mockImplementation((key: string) => mockConfigGet(key));
   });
 
   // Helper to create authenticated session
@@ -97,11 +108,23 @@ describe('Tasks Routes', () => {
       const response = await request(app).get('/tasks');
       expect(response.status).toBe(200);
       expect(mockedAxios.get).toHaveBeenCalledWith('http://localhost:4000/api/tasks', {
-        headers: { Authorization: 'Bearer mock-jwt-token' },
+        headers: { Authorization: 'Bearer mock-jwt-token', 'X-Request-Id': expect.any(String) },
         timeout: 10000,
       });
     });
 
+    it("should forward the caller's request ID to the backend", async () => {
+      mockedAxios.get.mockResolvedValue({ data: [] });
+
+      const response = await request(app).get('/tasks').set('X-Request-Id', 'req-123');
+
+      expect(response.headers['x-request-id']).toBe('req-123');
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'http://localhost:4000/api/tasks',
+        expect.objectContaining({ headers: expect.objectContaining({ 'X-Request-Id': 'req-123' }) })
+      );
+    });
+
     it('should handle errors when fetching tasks', async () => {
       mockedAxios.get.mockRejectedValue(new Error('Network error'));
 
@@ -110,6 +133,168 @@ describe('Tasks Routes', () => {
     });
   });
 
+  describe('GET /tasks filtering', () => {
+    const mockTasks = [
+      { id: 1, title: 'Prepare bundle', status: 'PENDING', statusDisplayName: 'Pending', overdue: true },
+      { id: 2, title: 'Call witness', status: 'COMPLETED', statusDisplayName: 'Completed', overdue: false },
+    ];
+
+    it('should filter tasks in the route handler when the backend does not support filtering', async () => {
+      mockedAxios.get.mockResolvedValue({ data: mockTasks });
+
+      const response = await request(app).get('/tasks?status=COMPLETED&search=witness');
+
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('Call witness');
+      expect(response.text).not.toContain('Prepare bundle');
+      expect(response.text).toContain('Showing 1 task matching your filters');
+      expect(mockedAxios.get).toHaveBeenCalledWith('http://localhost:4000/api/tasks', {
+        headers: { Authorization: 'Bearer mock-jwt-token', 'X-Request-Id': expect.any(String) },
+        timeout: 10000,
+      });
+    });
+
+    it('should keep selected filters checked in the filter panel', async () => {
+      mockedAxios.get.mockResolvedValue({ data: mockTasks });
+
+      const response = await request(app).get('/tasks?status=COMPLETED&due=overdue&search=witness');
+
+      expect(response.text).toMatch(/value="COMPLETED" checked/);
+      expect(response.text).toMatch(/value="overdue" checked/);
+      expect(response.text).toContain('value="witness"');
+    });
+
+    it('should show a message when no tasks match', async () => {
+      mockedAxios.get.mockResolvedValue({ data: mockTasks });
+
+      const response = await request(app).get('/tasks?status=CANCELLED');
+
+      expect(response.text).toContain('No tasks match your filters');
+    });
+
+    it('should pass filters to the backend when it supports filtering', async () => {
+      (config.get as jest.Mock).mockImplementation((key: string) =>
+        key === 'tasks.backendFiltering' ? true : mockConfigGet(key)
+      );
+      mockedAxios.get.mockResolvedValue({ data: [mockTasks[0]] });
+
+      const response = await request(app).get('/tasks?status=PENDING&status=IN_PROGRESS&due=overdue');
+
+      expect(response.text).toContain('Prepare bundle');
+      expect(mockedAxios.get).toHaveBeenCalledWith('http://localhost:4000/api/tasks', {
+        headers: { Authorization: 'Bearer mock-jwt-token', 'X-Request-Id': expect.any(String) },
+        timeout: 10000,
+        params: { status: 'PENDING,IN_PROGRESS', due: 'overdue' },
+      });
+    });
+  });
+
+  describe('GET /tasks sorting', () => {
+    const mockTasks = [
+      { id: 1, title: 'Later task', status: 'PENDING', dueDateTime: '2025-12-20T10:00:00' },
+      { id: 2, title: 'Sooner task', status: 'PENDING', dueDateTime: '2025-12-16T10:00:00' },
+      { id: 3, title: 'Overdue task', status: 'PENDING', dueDateTime: '2025-12-25T10:00:00', overdue: true },
+    ];
+
+    it('should show overdue tasks first, then the nearest due date by default', async () => {
+      mockedAxios.get.mockResolvedValue({ data: mockTasks });
+
+      const response = await request(app).get('/tasks');
+
+      const overdue = response.text.indexOf('Overdue task');
+      const sooner = response.text.indexOf('Sooner task');
+      const later = response.text.indexOf('Later task');
+      expect(overdue).toBeLessThan(sooner);
+      expect(sooner).toBeLessThan(later);
+      expect(response.text).toMatch(
+        /<a href="\/tasks\?sort=dueDateTime&amp;order=desc"[^>]*aria-current="true">\s*Due date\s*<span class="govuk-visually-hidden">\(sorted ascending\)/
+      );
+      expect(response.text).not.toContain('aria-sort');
+    });
+
+    it('should sort by the requested column and keep filters in sort links', async () => {
+      mockedAxios.get.mockResolvedValue({ data: mockTasks });
+
+      const response = await request(app).get('/tasks?status=PENDING&sort=title&order=desc');
+
+      expect(response.text.indexOf('Sooner task')).toBeLessThan(response.text.indexOf('Later task'));
+      expect(response.text).toContain('href="/tasks?status=PENDING&amp;sort=title&amp;order=asc"');
+      expect(response.text).toContain('name="sort" value="title"');
+    });
+  });
+
+  describe('GET /tasks pagination', () => {
+    const manyTasks = Array.from({ length: 312 }, (_, i) => ({
+      id: i + 1,
+      title: `Task ${i + 1}`,
+      status: 'PENDING',
+      dueDateTime: `2025-12-15T10:${String(i % 60).padStart(2, '0')}:00`,
+    }));
+
+    it('should page tasks in memory when the backend returns every task', async () => {
+      mockedAxios.get.mockResolvedValue({ data: manyTasks });
+
+      const response = await request(app).get('/tasks?page=2');
+
+      expect(response.text).toContain('Showing 21&ndash;40 of 312 tasks');
+      expect(response.text).toContain('govuk-pagination');
+      expect(response.text).toContain('href="/tasks?sort=dueDateTime&amp;order=asc&amp;page=3"');
+    });
+
+    it('should honour a custom page size and keep it in links', async () => {
+      mockedAxios.get.mockResolvedValue({ data: manyTasks });
+
+      const response = await request(app).get('/tasks?pageSize=50');
+
+      expect(response.text).toContain('Showing 1&ndash;50 of 312 tasks');
+      expect(response.text).toContain('href="/tasks?pageSize=50&amp;sort=dueDateTime&amp;order=asc&amp;page=2"');
+      expect(response.text).toContain('name="pageSize" value="50"');
+    });
+
+    it('should use backend paging when it is enabled', async () => {
+      (config.get as jest.Mock).mockImplementation((key: string) =>
+        key === 'tasks.backendPaging' ? true : mockConfigGet(key)
+      );
+      mockedAxios.get.mockResolvedValue({
+        data: { content: manyTasks.slice(20, 40), totalElements: 312 },
+      });
+
+      const response = await request(app).get('/tasks?page=2&status=PENDING&sort=title&order=desc');
+
+      expect(response.text).toContain('Showing 21&ndash;40 of 312 tasks');
+      expect(mockedAxios.get).toHaveBeenCalledWith('http://localhost:4000/api/tasks', {
+        headers: { Authorization: 'Bearer mock-jwt-token', 'X-Request-Id': expect.any(String) },
+        timeout: 10000,
+        params: { status: 'PENDING', page: 1, size: 20, sort: 'title,desc' },
+      });
+    });
+
+    it('should filter and page in memory when the backend returns a page but backend paging is off', async () => {
+      mockedAxios.get.mockResolvedValue({
+        data: {
+          content: [...manyTasks.slice(0, 30), { id: 999, title: 'Done task', status: 'COMPLETED' }],
+          totalElements: 31,
+        },
+      });
+
+      const response = await request(app).get('/tasks?page=2&status=PENDING');
+
+      expect(response.text).toContain('Showing 21&ndash;30 of 30 tasks');
+      expect(response.text).not.toContain('Done task');
+    });
+
+    it('should page in memory when backend paging is enabled but the backend returns a list', async () => {
+      (config.get as jest.Mock).mockImplementation((key: string) =>
+        key === 'tasks.backendPaging' ? true : mockConfigGet(key)
+      );
+      mockedAxios.get.mockResolvedValue({ data: manyTasks });
+
+      const response = await request(app).get('/tasks?page=16');
+
+      expect(response.text).toContain('Showing 301&ndash;312 of 312 tasks');
+    });
+  });
+
   describe('GET /tasks/create', () => {
     it('should render the task creation form', async () => {
       const response = await request(app).get('/tasks/create');
@@ -163,6 +348,31 @@ describe('Tasks Routes', () => {
       );
     });
 
+    it('should accept legal text that mentions SQL keywords', async () => {
+      mockedAxios.post.mockResolvedValue({ data: { id: 1 } });
+
+      const response = await request(app).post('/tasks/create').send({
+        title: 'Update the select committee bundle',
+        description: 'Drop the union claim',
+        status: 'PENDING',
+        dueDateTime: '2025-12-15T14:30',
+      });
+
+      expect(response.status).not.toBe(403);
+      expect(mockedAxios.post).toHaveBeenCalled();
+    });
+
+    it('should block a script injection attempt before it reaches the backend', async () => {
+      const response = await request(app).post('/tasks/create').send({
+        title: '<script>alert(1)</script>',
+        status: 'PENDING',
+        dueDateTime: '2025-12-15T14:30',
+      });
+
+      expect(response.status).toBe(403);
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
     it('should handle validation errors from backend', async () => {
       const mockError = {
         response: {
@@ -285,13 +495,15 @@ describe('Tasks Routes', () => {
       mockedAxios.post.mockRejectedValue(mockError);
 
       const response = await request(app).post('/tasks/create').send({
-        title: '<script>alert("XSS")</script>',
+        // Script tags are blocked by the suspicious activity check before reaching the route, so use other markup
+        title: '"><b>XSS</b>',
         description: 'Normal description',
         status: 'PENDING',
         dueDateTime: '2025-12-15T14:30',
       });
 
       expect(response.status).toBe(400);
+      expect(response.text).not.toContain('<b>XSS</b>');
     });
 
     it('should handle empty form submission', async () => {
@@ -412,6 +624,454 @@ describe('Tasks Routes', () => {
     });
   });
 
+  describe('GET /tasks/:id', () => {
+    it('should fetch and render a single task', async () => {
+      mockedAxios.get.mockResolvedValue({
+        data: {
+          id: 42,
+          title: 'Review bundle',
+          description: 'Check the hearing bundle',
+          status: 'IN_PROGRESS',
+          statusDisplayName: 'In Progress',
+          dueDateTime: '2025-12-15T14:30:00',
+          createdAt: '2025-01-01T10:00:00',
+          updatedAt: '2025-01-02T11:00:00',
+          overdue: false,
+          dueToday: false,
+          hoursUntilDue: 100,
+        },
+      });
+
+      const response = await request(app).get('/tasks/42');
+
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('Review bundle');
+      expect(response.text).toContain('2025-01-02 at 11:00:00');
+      expect(mockedAxios.get).toHaveBeenCalledWith('http://localhost:4000/api/tasks/42', {
+        headers: { Authorization: 'Bearer mock-jwt-token', 'X-Request-Id': expect.any(String) },
+        timeout: 10000,
+      });
+    });
+
+    it('should render not found page when the backend returns 404', async () => {
+      mockedAxios.get.mockRejectedValue({ response: { status: 404, data: { message: 'Task not found' } } });
+
+      const response = await request(app).get('/tasks/999');
+
+      expect(response.status).toBe(404);
+      expect(response.text).toContain('Page Not Found');
+      expect(logger.warn).toHaveBeenCalledWith('Task not found', { taskId: '999' });
+    });
+
+    it('should render error page when the backend fails', async () => {
+      mockedAxios.get.mockRejectedValue(new Error('Network error'));
+
+      const response = await request(app).get('/tasks/42');
+
+      expect(response.text).toContain('Something went wrong');
+      expect(logger.error).toHaveBeenCalledWith(
+        'Error fetching task',
+        expect.objectContaining({
+          taskId: '42',
+        })
+      );
+    });
+
+    it('should link task titles on the list page to the detail page', async () => {
+      mockedAxios.get.mockResolvedValue({
+        data: [{ id: 7, title: 'Linked Task', status: 'PENDING', statusDisplayName: 'Pending' }],
+      });
+
+      const response = await request(app).get('/tasks');
+
+      expect(response.text).toContain('href="/tasks/7"');
+    });
+  });
+
+  describe('GET /tasks/:id/update', () => {
+    it('should render the manage form prefilled from the backend', async () => {
+      mockedAxios.get.mockResolvedValue({
+        data: {
+          id: 42,
+          title: 'Review bundle',
+          description: 'Check the hearing bundle',
+          status: 'IN_PROGRESS',
+          dueDateTime: '2025-12-15T14:30:00',
+        },
+      });
+
+      const response = await request(app).get('/tasks/42/update');
+
+      expect(response.status).toBe(200);
+      expect(mockedAxios.get).toHaveBeenCalledWith('http://localhost:4000/api/tasks/42', expect.any(Object));
+      expect(response.text).toContain('action="/tasks/42/update"');
+      expect(response.text).toContain('value="Review bundle"');
+      expect(response.text).toContain('value="2025-12-15T14:30"');
+      expect(response.text).toContain('Update Task');
+    });
+
+    it.each(['COMPLETED', 'CANCELLED'])('should keep a %s task on its current status', async status => {
+      mockedAxios.get.mockResolvedValue({
+        data: { id: 42, title: 'Review bundle', status, dueDateTime: '2025-12-15T14:30:00' },
+      });
+
+      const response = await request(app).get('/tasks/42/update');
+
+      expect(response.text).toMatch(new RegExp(`name="status" type="radio" value="${status}" checked`));
+      expect(response.text).not.toMatch(/value="(PENDING|IN_PROGRESS)" checked/);
+    });
+
+    it('should render not found page when the task does not exist', async () => {
+      mockedAxios.get.mockRejectedValue({ response: { status: 404 } });
+
+      const response = await request(app).get('/tasks/999/update');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /tasks/:id/update', () => {
+    const formData = {
+      title: 'Updated Task',
+      description: 'Updated description',
+      status: 'IN_PROGRESS',
+      dueDateTime: '2025-12-15T14:30',
+    };
+
+    beforeEach(() => {
+      mockedAxios.get.mockResolvedValue({ data: { id: 42, status: 'PENDING' } });
+    });
+
+    it('should submit a PUT and redirect to the detail page', async () => {
+      mockedAxios.put.mockResolvedValue({ data: { id: 42, ...formData } });
+
+      const response = await request(app).post('/tasks/42/update').send(formData);
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('/tasks/42');
+      expect(mockedAxios.put).toHaveBeenCalledWith(
+        'http://localhost:4000/api/tasks/42',
+        formData,
+        expect.objectContaining({
+          timeout: 10000,
+          headers: expect.objectContaining({
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer mock-jwt-token',
+          }),
+        })
+      );
+    });
+
+    it('should map backend validation errors onto the form', async () => {
+      mockedAxios.put.mockRejectedValue({
+        response: {
+          status: 400,
+          data: { validationErrors: { title: 'Title must be between 3 and 200 characters' } },
+        },
+      });
+
+      const response = await request(app)
+        .post('/tasks/42/update')
+        .send({ ...formData, title: 'ab' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toContain('Title must be between 3 and 200 characters');
+      expect(response.text).toContain('action="/tasks/42/update"');
+    });
+
+    it('should attribute business day violations to the due date field', async () => {
+      mockedAxios.put.mockRejectedValue({
+        response: { status: 400, data: { message: 'Tasks cannot be due on a weekend' } },
+      });
+
+      const response = await request(app).post('/tasks/42/update').send(formData);
+
+      expect(response.status).toBe(400);
+      expect(response.text).toContain('id="dueDateTime-error"');
+    });
+
+    it('should render not found page when the task does not exist', async () => {
+      mockedAxios.put.mockRejectedValue({ response: { status: 404 } });
+
+      const response = await request(app).post('/tasks/999/update').send(formData);
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should not reopen a cancelled task from the edit form', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { id: 42, status: 'CANCELLED' } });
+
+      const response = await request(app)
+        .post('/tasks/42/update')
+        .send({ ...formData, status: 'PENDING' });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toContain('Cancelled tasks can only be reopened from the task page, with a reason');
+      expect(mockedAxios.put).not.toHaveBeenCalled();
+    });
+
+    it('should save other changes to a cancelled task that keeps its status', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { id: 42, status: 'CANCELLED' } });
+      mockedAxios.put.mockResolvedValue({ data: { id: 42 } });
+
+      const response = await request(app)
+        .post('/tasks/42/update')
+        .send({ ...formData, status: 'CANCELLED' });
+
+      expect(response.headers.location).toBe('/tasks/42');
+    });
+
+    it.each([['ARCHIVED'], [undefined]])('should reject the status %s without calling the backend', async status => {
+      const response = await request(app)
+        .post('/tasks/42/update')
+        .send({ ...formData, status });
+
+      expect(response.status).toBe(400);
+      expect(response.text).toContain('Select a valid status');
+      expect(mockedAxios.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /tasks/:id/delete', () => {
+    it('should render a confirmation page without inline script', async () => {
+      mockedAxios.get.mockResolvedValue({
+        data: { id: 42, title: 'Review bundle', status: 'PENDING', dueDateTime: '2025-12-15T14:30:00' },
+      });
+
+      const response = await request(app).get('/tasks/42/delete');
+
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('Are you sure you want to delete this task?');
+      expect(response.text).toContain('action="/tasks/42/delete"');
+      expect(response.text).not.toContain('onclick');
+    });
+
+    it('should render not found page when the task does not exist', async () => {
+      mockedAxios.get.mockRejectedValue({ response: { status: 404 } });
+
+      const response = await request(app).get('/tasks/999/delete');
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /tasks/:id/delete', () => {
+    it('should delete the task and show a success banner on the list', async () => {
+      mockedAxios.delete.mockResolvedValue({ status: 204 });
+      mockedAxios.get.mockResolvedValue({ data: [] });
+      const agent = authenticatedAgent();
+
+      const response = await agent.post('/tasks/42/delete');
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('/tasks');
+      expect(mockedAxios.delete).toHaveBeenCalledWith('http://localhost:4000/api/tasks/42', {
+        headers: { Authorization: 'Bearer mock-jwt-token', 'X-Request-Id': expect.any(String) },
+        timeout: 10000,
+      });
+
+      const listResponse = await agent.get('/tasks');
+      expect(listResponse.text).toContain('Task deleted successfully');
+
+      const nextListResponse = await agent.get('/tasks');
+      expect(nextListResponse.text).not.toContain('Task deleted successfully');
+    });
+
+    it('should render not found page when the task does not exist', async () => {
+      mockedAxios.delete.mockRejectedValue({ response: { status: 404 } });
+
+      const response = await request(app).post('/tasks/999/delete');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should render error page when the backend fails', async () => {
+      mockedAxios.delete.mockRejectedValue(new Error('Network error'));
+
+      const response = await request(app).post('/tasks/42/delete');
+
+      expect(response.text).toContain('Something went wrong');
+      expect(logger.error).toHaveBeenCalledWith('Error deleting task', expect.objectContaining({ taskId: '42' }));
+    });
+  });
+
+  describe('POST /tasks/:id/status', () => {
+    it('should PATCH the status and redirect back to the list', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { id: 42, status: 'IN_PROGRESS' } });
+      mockedAxios.patch.mockResolvedValue({ data: { id: 42, status: 'COMPLETED' } });
+
+      const response = await request(app).post('/tasks/42/status').send({ status: 'COMPLETED', returnTo: '/tasks' });
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('/tasks');
+      expect(mockedAxios.patch).toHaveBeenCalledWith(
+        'http://localhost:4000/api/tasks/42/status',
+        { status: 'COMPLETED' },
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer mock-jwt-token' }),
+        })
+      );
+    });
+
+    it('should return to the list with its filters, sort and page', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { id: 42, status: 'IN_PROGRESS' } });
+      mockedAxios.patch.mockResolvedValue({ data: { id: 42, status: 'COMPLETED' } });
+
+      const response = await request(app)
+        .post('/tasks/42/status')
+        .send({ status: 'COMPLETED', returnTo: '/tasks?status=IN_PROGRESS&sort=title&order=asc&page=2' });
+
+      expect(response.headers.location).toBe('/tasks?status=IN_PROGRESS&sort=title&order=asc&page=2');
+    });
+
+    it('should redirect to the detail page for any other return path', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { id: 42, status: 'PENDING' } });
+      mockedAxios.patch.mockResolvedValue({ data: { id: 42, status: 'CANCELLED' } });
+
+      const response = await request(app)
+        .post('/tasks/42/status')
+        .send({ status: 'CANCELLED', returnTo: 'https://evil.example.com' });
+
+      expect(response.headers.location).toBe('/tasks/42');
+
+      const other = await request(app)
+        .post('/tasks/42/status')
+        .send({ status: 'CANCELLED', returnTo: '/tasks/create' });
+      expect(other.headers.location).toBe('/tasks/42');
+    });
+
+    it('should reject reopening a cancelled task without a reason', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: { id: 42, status: 'CANCELLED' } });
+      const agent = authenticatedAgent();
+
+      const response = await agent.post('/tasks/42/status').send({ status: 'PENDING', returnTo: '/tasks' });
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('/tasks/42');
+      expect(mockedAxios.patch).not.toHaveBeenCalled();
+
+      mockedAxios.get.mockResolvedValueOnce({
+        data: { id: 42, title: 'Cancelled Task', status: 'CANCELLED', statusDisplayName: 'Cancelled' },
+      });
+      const detailResponse = await agent.get('/tasks/42');
+      expect(detailResponse.text).toContain('Enter a reason for reopening a cancelled task');
+      expect(detailResponse.text).toContain('id="reason-error"');
+    });
+
+    it('should reopen a cancelled task when a reason is given', async () => {
+      mockedAxios.get.mockResolvedValue({ data: { id: 42, status: 'CANCELLED' } });
+      mockedAxios.patch.mockResolvedValue({ data: { id: 42, status: 'PENDING' } });
+
+      const response = await request(app)
+        .post('/tasks/42/status')
+        .send({ status: 'PENDING', reason: ' Hearing relisted ' });
+
+      expect(response.headers.location).toBe('/tasks/42');
+      expect(mockedAxios.patch).toHaveBeenCalledWith(
+        'http://localhost:4000/api/tasks/42/status',
+        { status: 'PENDING', reason: 'Hearing relisted' },
+        expect.any(Object)
+      );
+    });
+
+    it('should reject unknown statuses without calling the backend', async () => {
+      const response = await request(app).post('/tasks/42/status').send({ status: 'ARCHIVED' });
+
+      expect(response.headers.location).toBe('/tasks/42');
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+      expect(mockedAxios.patch).not.toHaveBeenCalled();
+    });
+
+    it('should render status actions on the list page', async () => {
+      mockedAxios.get.mockResolvedValue({
+        data: [{ id: 7, title: 'Open Task', status: 'PENDING', statusDisplayName: 'Pending' }],
+      });
+
+      const response = await request(app).get('/tasks');
+
+      expect(response.text).toContain('action="/tasks/7/status"');
+      expect(response.text).toContain('Mark complete');
+    });
+
+    it('should send the current list address as the return path', async () => {
+      mockedAxios.get.mockResolvedValue({
+        data: [{ id: 7, title: 'Open Task', status: 'PENDING', statusDisplayName: 'Pending' }],
+      });
+
+      const response = await request(app).get('/tasks?status=PENDING&sort=title&order=desc');
+
+      expect(response.text).toContain('name="returnTo" value="/tasks?status=PENDING&amp;sort=title&amp;order=desc"');
+    });
+
+    it('should link cancelled tasks on the list to their detail page to reopen them', async () => {
+      mockedAxios.get.mockResolvedValue({
+        data: [{ id: 9, title: 'Cancelled Task', status: 'CANCELLED', statusDisplayName: 'Cancelled' }],
+      });
+
+      const response = await request(app).get('/tasks');
+
+      expect(response.text).toMatch(/<a href="\/tasks\/9"[^>]*aria-label="Reopen Cancelled Task"/);
+      expect(response.text).not.toContain('action="/tasks/9/status"');
+    });
+  });
+
+  describe('Expired sessions', () => {
+    const unauthorised = { response: { status: 401, data: { message: 'Token has expired' } } };
+
+    it('should redirect to sign in when the backend rejects the token', async () => {
+      mockedAxios.get.mockRejectedValue(unauthorised);
+      const agent = authenticatedAgent();
+
+      const response = await agent.get('/tasks');
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('/auth/login');
+
+      const loginResponse = await agent.get('/auth/login');
+      expect(loginResponse.text).toContain('Your session has expired');
+
+      const nextLoginResponse = await agent.get('/auth/login');
+      expect(nextLoginResponse.text).not.toContain('Your session has expired');
+    });
+
+    it('should return to the original page after signing in again', async () => {
+      mockedAxios.get.mockRejectedValueOnce(unauthorised);
+      const agent = authenticatedAgent();
+
+      await agent.get('/tasks/42?view=full');
+
+      mockedAxios.post
+        .mockResolvedValueOnce({ data: { success: true, emailValidated: true } })
+        .mockResolvedValueOnce({ data: { success: true, token: 'new-jwt-token' } });
+      await agent.post('/auth/validate-email').type('form').send({ email: 'test@example.com' });
+      const response = await agent.post('/auth/authenticate').type('form').send({ password: 'Password1!' });
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe('/tasks/42?view=full');
+    });
+
+    it('should return to the page a rejected form was submitted from', async () => {
+      mockedAxios.get.mockRejectedValueOnce(unauthorised);
+      const agent = authenticatedAgent();
+
+      const response = await agent
+        .post('/tasks/42/status')
+        .set('Host', 'localhost')
+        .set('Referer', 'http://localhost/tasks?status=PENDING')
+        .type('form')
+        .send({ status: 'COMPLETED' });
+      expect(response.headers.location).toBe('/auth/login');
+
+      mockedAxios.post
+        .mockResolvedValueOnce({ data: { success: true, emailValidated: true } })
+        .mockResolvedValueOnce({ data: { success: true, token: 'new-jwt-token' } });
+      await agent.post('/auth/validate-email').type('form').send({ email: 'test@example.com' });
+      const signInResponse = await agent.post('/auth/authenticate').type('form').send({ password: 'Password1!' });
+
+      expect(signInResponse.headers.location).toBe('/tasks?status=PENDING');
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle requests with missing CSRF token gracefully', async () => {
       const response = await request(app).get('/tasks/create');
@@ -1,4 +1,4 @@
-import { clearAuth, redirectIfAuthenticated, requireAuth } from '../../main/middleware/auth';
+import { clearAuth, expireSession, redirectIfAuthenticated, requireAuth } from '../../main/middleware/auth';
 import { logger } from '../../main/utils/logger';
 
 import { NextFunction, Request, Response } from 'express';
@@ -66,6 +66,52 @@ describe('Auth Middleware', () => {
       expect(mockResponse.redirect).toHaveBeenCalledWith('/auth/login');
       expect(mockNext).not.toHaveBeenCalled();
     });
+    it('should not treat a user waiting for their one-time code as signed in', () => {
+      // Given
+      mockRequest.session = {
+        pendingTwoFactor: { email: 'test@example.com', challengeToken: 'challenge', method: 'totp' },
+      } as Request['session'];
+
+      // When
+      requireAuth(mockRequest as Request, mockResponse as Response, mockNext);
+
+      // Then
+      expect(mockResponse.redirect).toHaveBeenCalledWith('/auth/verify-code');
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should remember the requested page for GET requests', () => {
+      // Given
+      mockRequest = { ...mockRequest, method: 'GET', originalUrl: '/tasks/create', session: {} as Request['session'] };
+
+      // When
+      requireAuth(mockRequest as Request, mockResponse as Response, mockNext);
+
+      // Then
+      expect(mockRequest.session?.returnTo).toBe('/tasks/create');
+      expect(mockResponse.redirect).toHaveBeenCalledWith('/auth/login');
+    });
+
+    it('should not remember unsafe or non-GET requests', () => {
+      // Given
+      mockRequest = {
+        ...mockRequest,
+        method: 'GET',
+        originalUrl: '//evil.example.com',
+        session: {} as Request['session'],
+      };
+
+      // When
+      requireAuth(mockRequest as Request, mockResponse as Response, mockNext);
+      requireAuth(
+        { ...mockRequest, method: 'POST', originalUrl: '/tasks/create' } as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      // Then
+      expect(mockRequest.session?.returnTo).toBeUndefined();
+    });
   });
 
   describe('redirectIfAuthenticated', () => {
@@ -81,6 +127,18 @@ describe('Auth Middleware', () => {
       expect(mockNext).not.toHaveBeenCalled();
     });
 
+    it('should not log the token of a password reset link', () => {
+      // Given
+      mockRequest = { ...mockRequest, path: '/auth/reset-password/secret-reset-token', session: { token: 'jwt' } };
+
+      // When
+      redirectIfAuthenticated(mockRequest as Request, mockResponse as Response, mockNext);
+
+      // Then
+      expect(JSON.stringify((logger.info as jest.Mock).mock.calls)).not.toContain('secret-reset-token');
+      expect(logger.info).toHaveBeenCalledWith(expect.any(String), { path: '/auth/reset-password/[REDACTED]' });
+    });
+
     it('should call next() when token does not exist', () => {
       // Given
       mockRequest.session = {};
@@ -152,4 +210,62 @@ describe('Auth Middleware', () => {
       expect(mockNext).toHaveBeenCalled();
     });
   });
+
+  describe('expireSession', () => {
+    const regenerate = jest.fn((callback: (err?: Error) => void) => callback());
+
+    beforeEach(() => {
+      regenerate.mockClear();
+    });
+
+    it('should clear the token and remember the page for GET requests', () => {
+      // Given
+      mockRequest = {
+        ...mockRequest,
+        method: 'GET',
+        originalUrl: '/tasks/42',
+        session: { token: 'expired-token', email: 'test@example.com', regenerate } as unknown as Request['session'],
+      };
+
+      // When
+      expireSession(mockRequest as Request, mockResponse as Response);
+
+      // Then
+      expect(regenerate).toHaveBeenCalled();
+      expect(mockRequest.session?.token).toBeUndefined();
+      expect(mockRequest.session?.email).toBeUndefined();
+      expect(mockRequest.session?.sessionExpired).toBe(true);
+      expect(mockRequest.session?.returnTo).toBe('/tasks/42');
+      expect(mockResponse.redirect).toHaveBeenCalledWith('/auth/login');
+    });
+
+    it('should not remember a referer from another site', () => {
+      // Given
+      const headers: Record<string, string> = { host: 'localhost:3100', referer: 'https://example.com/tasks' };
+      mockRequest = {
+        ...mockRequest,
+        method: 'POST',
+        get: ((name: string) => headers[name.toLowerCase()]) as Request['get'],
+        session: { token: 'expired-token', regenerate } as unknown as Request['session'],
+      };
+
+      // When
+      expireSession(mockRequest as Request, mockResponse as Response);
+
+      // Then
+      expect(mockRequest.session?.returnTo).toBeUndefined();
+      expect(mockResponse.redirect).toHaveBeenCalledWith('/auth/login');
+    });
+
+    it('should redirect to sign in when session is undefined', () => {
+      // Given
+      mockRequest.session = undefined;
+
+      // When
+      expireSession(mockRequest as Request, mockResponse as Response);
+
+      // Then
+      expect(mockResponse.redirect).toHaveBeenCalledWith('/auth/login');
+    });
+  });
 });
@@ -196,6 +196,24 @@ describe('AuthenticationService', () => {
       });
     });
 
+    it('should report a locked account distinctly from rate limiting', async () => {
+      // Given
+      mockedAxios.post.mockRejectedValue({
+        response: {
+          status: 423,
+          data: { message: 'Account locked' },
+          headers: { 'retry-after': '1800' },
+        },
+      });
+
+      // When/Then
+      await expect(authService.authenticate('test@example.com', 'password123')).rejects.toMatchObject({
+        statusCode: 423,
+        retryAfter: '1800',
+        accountLocked: true,
+      });
+    });
+
     it('should validate required fields', async () => {
       // When/Then
       await expect(authService.authenticate('', 'password')).rejects.toThrow('Email is required');
@@ -203,6 +221,57 @@ describe('AuthenticationService', () => {
     });
   });
 
+  describe('verifyCode', () => {
+    it('should exchange a one-time code for a token', async () => {
+      // Given
+      mockedAxios.post.mockResolvedValue({ data: { message: 'Verified', token: 'jwt-token' }, status: 200 });
+
+      // When
+      const result = await authService.verifyCode('challenge', ' 123456 ');
+
+      // Then
+      expect(result.token).toBe('jwt-token');
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        `${mockBackendUrl}/api/auth/verify-code`,
+        { challengeToken: 'challenge', code: '123456' },
+        expect.any(Object)
+      );
+    });
+
+    it('should reject an incorrect code', async () => {
+      // Given
+      mockedAxios.post.mockRejectedValue({ response: { status: 401, data: { message: 'Invalid code' } } });
+
+      // When/Then
+      await expect(authService.verifyCode('challenge', '000000')).rejects.toMatchObject({
+        name: 'AuthenticationError',
+        statusCode: 401,
+      });
+    });
+
+    it('should validate required fields', async () => {
+      await expect(authService.verifyCode('', '123456')).rejects.toThrow('Challenge token is required');
+      await expect(authService.verifyCode('challenge', '')).rejects.toThrow('Code is required');
+    });
+  });
+
+  describe('resendCode', () => {
+    it('should ask the backend to send a new code', async () => {
+      // Given
+      mockedAxios.post.mockResolvedValue({ data: {}, status: 200 });
+
+      // When
+      await authService.resendCode('challenge');
+
+      // Then
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        `${mockBackendUrl}/api/auth/resend-code`,
+        { challengeToken: 'challenge' },
+        expect.any(Object)
+      );
+    });
+  });
+
   describe('logout', () => {
     it('should logout successfully', async () => {
       // Given
@@ -245,4 +314,77 @@ describe('AuthenticationService', () => {
       await expect(authService.logout(token)).rejects.toThrow('Invalid token');
     });
   });
+
+  describe('requestPasswordReset', () => {
+    it('should ask the backend to send a reset link', async () => {
+      // Given
+      mockedAxios.post.mockResolvedValue({ data: { message: 'Reset email sent' }, status: 200 });
+
+      // When
+      const result = await authService.requestPasswordReset(' test@example.com ');
+
+      // Then
+      expect(result.message).toBe('Reset email sent');
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        `${mockBackendUrl}/api/auth/forgotten-password`,
+        { email: 'test@example.com' },
+        expect.any(Object)
+      );
+    });
+
+    it('should require an email', async () => {
+      await expect(authService.requestPasswordReset('')).rejects.toThrow('Email is required');
+    });
+  });
+
+  describe('verifyResetToken', () => {
+    it('should send the token in the request body', async () => {
+      // Given
+      mockedAxios.post.mockResolvedValue({ data: {}, status: 200 });
+
+      // When
+      await authService.verifyResetToken('reset-token');
+
+      // Then
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        `${mockBackendUrl}/api/auth/reset-password/verify`,
+        { token: 'reset-token' },
+        expect.any(Object)
+      );
+    });
+
+    it('should reject expired tokens', async () => {
+      // Given
+      mockedAxios.post.mockRejectedValue({ response: { status: 410, data: { message: 'Token expired' } } });
+
+      // When/Then
+      await expect(authService.verifyResetToken('old-token')).rejects.toMatchObject({
+        name: 'AuthenticationError',
+        statusCode: 410,
+      });
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password with the token', async () => {
+      // Given
+      mockedAxios.post.mockResolvedValue({ data: { message: 'Password reset' }, status: 200 });
+
+      // When
+      const result = await authService.resetPassword('reset-token', 'correct horse 1');
+
+      // Then
+      expect(result.message).toBe('Password reset');
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        `${mockBackendUrl}/api/auth/reset-password`,
+        { token: 'reset-token', password: 'correct horse 1' },
+        expect.any(Object)
+      );
+    });
+
+    it('should validate required fields', async () => {
+      await expect(authService.resetPassword('', 'correct horse 1')).rejects.toThrow('Token is required');
+      await expect(authService.resetPassword('reset-token', '')).rejects.toThrow('Password is required');
+    });
+  });
 });
@@ -0,0 +1,131 @@
+import { BackendHealthService } from '../../main/services/backendHealthService';
+
+import axios from 'axios';
+
+jest.mock('axios');
+jest.mock('../../main/utils/logger');
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('BackendHealthService', () => {
+  const backendConfig = {
+    url: 'http://localhost:4000',
+    timeout: 5000,
+    health: { path: '/actuator/health', cacheTtl: 10000, degradedLatency: 2000 },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should report UP with latency when the backend is healthy', async () => {
+    // Given
+    mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+    const service = new BackendHealthService(backendConfig);
+
+    // When
+    const health = await service.check();
+
+    // Then
+    expect(health.status).toBe('UP');
+    expect(health.latency).toEqual(expect.any(Number));
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      'http://localhost:4000/actuator/health',
+      expect.objectContaining({ timeout: 5000 })
+    );
+  });
+
+  it('should report DEGRADED when a component is not UP', async () => {
+    // Given
+    mockedAxios.get.mockResolvedValue({
+      data: { status: 'UP', components: { db: { status: 'UP' }, mail: { status: 'UNKNOWN' } } },
+    });
+    const service = new BackendHealthService(backendConfig);
+
+    // When
+    const health = await service.check();
+
+    // Then
+    expect(health.status).toBe('DEGRADED');
+  });
+
+  it('should report DEGRADED when the backend responds slowly', async () => {
+    // Given
+    mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+    const service = new BackendHealthService({ ...backendConfig, health: { degradedLatency: -1 } });
+
+    // When
+    const health = await service.check();
+
+    // Then
+    expect(health.status).toBe('DEGRADED');
+  });
+
+  it('should report DOWN when the backend reports DOWN', async () => {
+    // Given
+    mockedAxios.get.mockResolvedValue({ status: 503, data: { status: 'DOWN' } });
+    const service = new BackendHealthService(backendConfig);
+
+    // When
+    const health = await service.check();
+
+    // Then
+    expect(health.status).toBe('DOWN');
+  });
+
+  it('should report DOWN without latency when the backend is unreachable', async () => {
+    // Given
+    mockedAxios.get.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const service = new BackendHealthService(backendConfig);
+
+    // When
+    const health = await service.check();
+
+    // Then
+    expect(health.status).toBe('DOWN');
+    expect(health.latency).toBeUndefined();
+  });
+
+  it('should reuse the result until the cache TTL expires', async () => {
+    // Given
+    jest.useFakeTimers({ now: new Date('2026-03-02T10:00:00Z') });
+    mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+    const service = new BackendHealthService(backendConfig);
+
+    // When
+    await service.check();
+    jest.setSystemTime(new Date('2026-03-02T10:00:09Z'));
+    await service.check();
+    jest.setSystemTime(new Date('2026-03-02T10:00:11Z'));
+    await service.check();
+
+    // Then
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one request between concurrent callers', async () => {
+    // Given
+    mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+    const service = new BackendHealthService(backendConfig);
+
+    // When
+    const [first, second] = await Promise.all([service.check(), service.check()]);
+
+    // Then
+    expect(first).toBe(second);
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the default health path', async () => {
+    // Given
+    mockedAxios.get.mockResolvedValue({ data: { status: 'UP' } });
+    const service = new BackendHealthService({ url: 'http://localhost:4000', timeout: 5000 });
+
+    // When
+    await service.check();
+
+    // Then
+    expect(mockedAxios.get).toHaveBeenCalledWith('http://localhost:4000/health', expect.any(Object));
+  });
+});
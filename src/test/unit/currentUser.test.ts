@@ -0,0 +1,173 @@
+import { JwtOptions, currentUser, getJwtOptions, toCurrentUser } from '../../main/middleware/currentUser';
+
+import config from 'config';
+import { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+
+jest.mock('../../main/utils/logger');
+jest.mock('config', () => ({
+  has: jest.fn(() => false),
+  get: jest.fn(),
+}));
+
+const SECRET = 'test-secret';
+
+function jwtOptions(overrides: Partial<JwtOptions> = {}): JwtOptions {
+  return { secret: SECRET, algorithms: ['HS256'], clockTolerance: 0, ...overrides };
+}
+
+function sign(claims: Record<string, unknown>, secret = SECRET): string {
+  return jwt.sign({ sub: 'user-1', ...claims }, secret, { expiresIn: '1h' });
+}
+
+describe('Current user', () => {
+  describe('getJwtOptions', () => {
+    it('should default to unverified HS256 tokens with a small clock tolerance', () => {
+      // Given
+      (config.has as jest.Mock).mockReturnValue(false);
+
+      // When
+      const result = getJwtOptions();
+
+      // Then
+      expect(result).toEqual({
+        secret: undefined,
+        publicKey: undefined,
+        algorithms: ['HS256'],
+        issuer: undefined,
+        audience: undefined,
+        clockTolerance: 30,
+      });
+    });
+
+    it('should keep a clock tolerance of 0', () => {
+      // Given
+      (config.has as jest.Mock).mockReturnValue(true);
+      (config.get as jest.Mock).mockImplementation((key: string) => ({ 'auth.jwt.clockTolerance': 0 })[key]);
+
+      // When
+      const result = getJwtOptions();
+
+      // Then
+      expect(result.clockTolerance).toBe(0);
+    });
+
+    it('should expect RS256 when a public key is configured', () => {
+      // Given
+      (config.has as jest.Mock).mockReturnValue(true);
+      (config.get as jest.Mock).mockImplementation(
+        (key: string) => ({ 'auth.jwt.publicKey': 'PUBLIC KEY', 'auth.jwt.issuer': 'hmcts-backend' })[key]
+      );
+
+      // When
+      const result = getJwtOptions();
+
+      // Then
+      expect(result.publicKey).toBe('PUBLIC KEY');
+      expect(result.algorithms).toEqual(['RS256']);
+      expect(result.issuer).toBe('hmcts-backend');
+    });
+  });
+
+  describe('toCurrentUser', () => {
+    it('should build the user from verified claims', () => {
+      // Given
+      const token = sign({ name: 'Test User', email: 'test@example.com', roles: ['caseworker', 'admin'] });
+
+      // When
+      const user = toCurrentUser(token, jwtOptions());
+
+      // Then
+      expect(user).toEqual({
+        id: 'user-1',
+        name: 'Test User',
+        email: 'test@example.com',
+        roles: ['caseworker', 'admin'],
+        expiresAt: expect.any(Date),
+      });
+      expect(user.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should fall back to the given and family names, then to the email', () => {
+      expect(toCurrentUser(sign({ given_name: 'Ada', family_name: 'Lovelace' }), jwtOptions()).name).toBe(
+        'Ada Lovelace'
+      );
+      expect(toCurrentUser(sign({}), jwtOptions(), 'test@example.com')).toEqual(
+        expect.objectContaining({ name: 'test@example.com', email: 'test@example.com', roles: [] })
+      );
+    });
+
+    it('should accept roles as a space or comma separated string', () => {
+      expect(toCurrentUser(sign({ roles: 'caseworker, admin' }), jwtOptions()).roles).toEqual(['caseworker', 'admin']);
+    });
+
+    it('should reject tokens with a bad signature or no subject', () => {
+      expect(() => toCurrentUser(sign({}, 'wrong-secret'), jwtOptions())).toThrow(jwt.JsonWebTokenError);
+      expect(() => toCurrentUser(jwt.sign({ name: 'No Subject' }, SECRET), jwtOptions())).toThrow(
+        'Token has no subject'
+      );
+      expect(() => toCurrentUser('not-a-jwt', jwtOptions())).toThrow(jwt.JsonWebTokenError);
+    });
+
+    it('should reject expired tokens, even when signatures are not verified', () => {
+      const expired = jwt.sign({ sub: 'user-1', exp: Math.floor(Date.now() / 1000) - 60 }, SECRET);
+
+      expect(() => toCurrentUser(expired, jwtOptions())).toThrow(jwt.TokenExpiredError);
+      expect(() => toCurrentUser(expired, jwtOptions({ secret: undefined }))).toThrow(jwt.TokenExpiredError);
+      expect(toCurrentUser(expired, jwtOptions({ clockTolerance: 120 })).id).toBe('user-1');
+    });
+  });
+
+  describe('currentUser middleware', () => {
+    let mockResponse: Partial<Response>;
+    let mockNext: jest.MockedFunction<NextFunction>;
+
+    beforeEach(() => {
+      mockResponse = { locals: {}, redirect: jest.fn() };
+      mockNext = jest.fn();
+    });
+
+    it('should expose the user on the request and to templates', () => {
+      // Given
+      const mockRequest = { session: { token: sign({ name: 'Test User' }) } } as unknown as Request;
+
+      // When
+      currentUser(jwtOptions())(mockRequest, mockResponse as Response, mockNext);
+
+      // Then
+      expect(mockRequest.user?.name).toBe('Test User');
+      expect(mockResponse.locals!.user).toBe(mockRequest.user);
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should do nothing for signed out requests', () => {
+      // Given
+      const mockRequest = { session: {} } as unknown as Request;
+
+      // When
+      currentUser(jwtOptions())(mockRequest, mockResponse as Response, mockNext);
+
+      // Then
+      expect(mockRequest.user).toBeUndefined();
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should end the session when the token cannot be used', () => {
+      // Given
+      const session = {
+        token: sign({}, 'wrong-secret'),
+        email: 'test@example.com',
+        regenerate: jest.fn((callback: (err?: Error) => void) => callback()),
+      };
+      const mockRequest = { session, method: 'GET', originalUrl: '/tasks', path: '/tasks' } as unknown as Request;
+
+      // When
+      currentUser(jwtOptions())(mockRequest, mockResponse as Response, mockNext);
+
+      // Then
+      expect(session.token).toBeUndefined();
+      expect(mockResponse.redirect).toHaveBeenCalledWith('/auth/login');
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+  });
+});
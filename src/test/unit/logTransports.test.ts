@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { LogEntry, RotatingFileTransport, formatJson, formatPretty } from '../../main/utils/logTransports';
+
+describe('log transports', () => {
+  const entry: LogEntry = {
+    timestamp: '2026-03-02T10:00:00.000Z',
+    level: 'info',
+    message: 'Task created',
+    requestId: 'req-123',
+    context: { module: 'tasks' },
+    meta: { taskId: 1 },
+  };
+
+  describe('formatJson', () => {
+    it('should put bound context alongside the standard fields', () => {
+      expect(JSON.parse(formatJson(entry))).toEqual({
+        timestamp: '2026-03-02T10:00:00.000Z',
+        level: 'info',
+        message: 'Task created',
+        requestId: 'req-123',
+        module: 'tasks',
+        meta: { taskId: 1 },
+      });
+    });
+  });
+
+  describe('formatPretty', () => {
+    it('should show the level, request ID and context before the message', () => {
+      expect(formatPretty(entry)).toBe(
+        '[2026-03-02T10:00:00.000Z] INFO [req-123] module=tasks: Task created\n{\n  "taskId": 1\n}'
+      );
+    });
+  });
+
+  describe('RotatingFileTransport', () => {
+    let directory: string;
+    let logFile: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'logs-'));
+      logFile = path.join(directory, 'nested', 'app.log');
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should append JSON lines, creating the directory', () => {
+      const transport = new RotatingFileTransport('info', { path: logFile, maxSize: 10000, maxFiles: 2 });
+
+      transport.write(entry);
+      transport.write({ ...entry, message: 'Second' });
+      transport.close();
+
+      const lines = fs.readFileSync(logFile, 'utf8').trim().split('\n');
+      expect(lines.map(line => JSON.parse(line).message)).toEqual(['Task created', 'Second']);
+    });
+
+    it('should rotate when the file would exceed its maximum size, keeping a limited number of files', () => {
+      const lineSize = Buffer.byteLength(`${formatJson(entry)}\n`);
+      const transport = new RotatingFileTransport('info', { path: logFile, maxSize: lineSize * 2, maxFiles: 2 });
+
+      for (let index = 1; index <= 7; index++) {
+        transport.write({ ...entry, message: `Line ${index}` });
+      }
+      transport.close();
+
+      const messages = (file: string) =>
+        fs
+          .readFileSync(file, 'utf8')
+          .trim()
+          .split('\n')
+          .map(line => JSON.parse(line).message);
+      expect(messages(logFile)).toEqual(['Line 7']);
+      expect(messages(`${logFile}.1`)).toEqual(['Line 5', 'Line 6']);
+      expect(messages(`${logFile}.2`)).toEqual(['Line 3', 'Line 4']);
+      expect(fs.existsSync(`${logFile}.3`)).toBe(false);
+    });
+
+    it('should continue an existing file after a restart', () => {
+      const previous = new RotatingFileTransport('info', { path: logFile, maxSize: 10000, maxFiles: 2 });
+      previous.write(entry);
+      previous.close();
+
+      const transport = new RotatingFileTransport('info', { path: logFile, maxSize: 10000, maxFiles: 2 });
+      transport.write(entry);
+      transport.close();
+
+      expect(fs.readFileSync(logFile, 'utf8').trim().split('\n')).toHaveLength(2);
+    });
+  });
+});
@@ -7,7 +7,10 @@ const mockedConfig = config as jest.Mocked<typeof config>;
 // Set default config before importing
 mockedConfig.has.mockReturnValue(false);
 
-import { logger } from '../../main/utils/logger';
+import { MemoryTransport } from '../../main/utils/logTransports';
+import { Logger, createLogger, logger } from '../../main/utils/logger';
+import { DEFAULT_REDACTION } from '../../main/utils/redact';
+import { runWithRequestContext } from '../../main/utils/requestContext';
 
 describe('Logger', () => {
   let consoleSpy: {
@@ -151,5 +154,129 @@ describe('Logger', () => {
       const parsed = JSON.parse(logOutput);
       expect(parsed.meta).toEqual(metadata);
     });
+
+    it('should include the request ID when logging during a request', () => {
+      runWithRequestContext({ requestId: 'req-123' }, () => logger.info('Handling request'));
+      const parsed = JSON.parse(consoleSpy.info.mock.calls[0][0]);
+
+      expect(parsed.requestId).toBe('req-123');
+    });
+
+    it('should omit the request ID outside a request', () => {
+      logger.info('Starting up');
+      const parsed = JSON.parse(consoleSpy.info.mock.calls[0][0]);
+
+      expect(parsed).not.toHaveProperty('requestId');
+    });
+  });
+
+  describe('redaction', () => {
+    it('should mask email addresses in messages and metadata', () => {
+      logger.info('Validating test@example.com', { email: 'test@example.com' });
+      const logOutput = consoleSpy.info.mock.calls[0][0];
+
+      expect(logOutput).not.toContain('test@example.com');
+      expect(JSON.parse(logOutput)).toMatchObject({
+        message: 'Validating t***@example.com',
+        meta: { email: 't***@example.com' },
+      });
+    });
+
+    it('should drop credentials from metadata', () => {
+      logger.error('Request failed', { password: 'Password1!', headers: { Authorization: 'Bearer jwt' } });
+      const parsed = JSON.parse(consoleSpy.error.mock.calls[0][0]);
+
+      expect(parsed.meta).toEqual({ headers: {} });
+    });
+
+    it('should serialise errors instead of logging an empty object', () => {
+      logger.error('Error fetching tasks', { error: new Error('Network error') });
+      const parsed = JSON.parse(consoleSpy.error.mock.calls[0][0]);
+
+      expect(parsed.meta.error).toEqual({ name: 'Error', message: 'Network error' });
+    });
+  });
+
+  describe('transports', () => {
+    it('should write to every transport at or below the entry level', () => {
+      const verbose = new MemoryTransport('debug');
+      const quiet = new MemoryTransport('warn');
+      const testLogger = new Logger({ transports: [verbose, quiet], redaction: DEFAULT_REDACTION });
+
+      testLogger.info('Info');
+      testLogger.error('Error');
+
+      expect(verbose.entries.map(entry => entry.message)).toEqual(['Info', 'Error']);
+      expect(quiet.entries.map(entry => entry.message)).toEqual(['Error']);
+    });
+
+    it('should change the level of every transport at runtime', () => {
+      const transport = new MemoryTransport('info');
+      const testLogger = new Logger({ transports: [transport], redaction: DEFAULT_REDACTION });
+
+      testLogger.setLevel('debug');
+      testLogger.debug('Now visible');
+
+      expect(testLogger.getLevels()).toEqual({ memory: 'debug' });
+      expect(transport.entries).toHaveLength(1);
+    });
+
+    it('should reject a level change for an unknown transport', () => {
+      const testLogger = new Logger({ transports: [new MemoryTransport()], redaction: DEFAULT_REDACTION });
+
+      expect(() => testLogger.setLevel('debug', 'file')).toThrow('Unknown log transport "file"');
+    });
+
+    it('should create transports from config, with per-transport levels', () => {
+      const testLogger = createLogger({
+        level: 'info',
+        prettyPrint: false,
+        transports: { console: { enabled: false }, memory: { enabled: true, level: 'debug' } },
+      });
+
+      expect(testLogger.getLevels()).toEqual({ memory: 'debug' });
+    });
+  });
+
+  describe('child loggers', () => {
+    let transport: MemoryTransport;
+    let parent: Logger;
+
+    beforeEach(() => {
+      transport = new MemoryTransport();
+      parent = new Logger({ transports: [transport], redaction: DEFAULT_REDACTION });
+    });
+
+    it('should add bound fields to every entry', () => {
+      parent.child({ module: 'auth' }).info('Signed in');
+
+      expect(transport.entries[0].context).toEqual({ module: 'auth' });
+    });
+
+    it('should combine fields from nested children without changing the parent', () => {
+      const child = parent.child({ module: 'tasks' }).child({ operation: 'create' });
+
+      child.info('Created');
+      parent.info('Unrelated');
+
+      expect(transport.entries[0].context).toEqual({ module: 'tasks', operation: 'create' });
+      expect(transport.entries[1].context).toEqual({});
+    });
+
+    it('should not let bound fields replace the standard ones', () => {
+      parent.child({ level: 'error', module: 'auth' }).info('Signed in');
+
+      expect(transport.entries[0].level).toBe('info');
+      expect(transport.entries[0].context).toEqual({ module: 'auth' });
+    });
+
+    it('should follow level changes made on the parent', () => {
+      const child = parent.child({ module: 'auth' });
+
+      parent.setLevel('error');
+      child.warn('Hidden');
+
+      expect(transport.entries).toHaveLength(0);
+    });
   });
 });
@@ -0,0 +1,87 @@
+import { buildPagination, paginate, parsePageRequest, toPage } from '../../main/utils/pagination';
+
+describe('Pagination', () => {
+  const items = Array.from({ length: 312 }, (_, i) => i + 1);
+
+  describe('parsePageRequest', () => {
+    it('should use the first page and default page size', () => {
+      expect(parsePageRequest({}, 20)).toEqual({ page: 1, pageSize: 20 });
+    });
+
+    it('should read page and page size from the query string', () => {
+      expect(parsePageRequest({ page: '3', pageSize: '50' }, 20)).toEqual({ page: 3, pageSize: 50 });
+    });
+
+    it('should ignore invalid values and cap the page size', () => {
+      expect(parsePageRequest({ page: '-1', pageSize: 'abc' }, 20)).toEqual({ page: 1, pageSize: 20 });
+      expect(parsePageRequest({ page: ['2'], pageSize: '5000' }, 20)).toEqual({ page: 1, pageSize: 100 });
+    });
+  });
+
+  describe('paginate', () => {
+    it('should return the requested page with item positions', () => {
+      const page = paginate(items, { page: 2, pageSize: 20 });
+
+      expect(page.items[0]).toBe(21);
+      expect(page.items).toHaveLength(20);
+      expect(page.from).toBe(21);
+      expect(page.to).toBe(40);
+      expect(page.totalItems).toBe(312);
+      expect(page.totalPages).toBe(16);
+    });
+
+    it('should clamp requests beyond the last page', () => {
+      const page = paginate(items, { page: 99, pageSize: 20 });
+
+      expect(page.page).toBe(16);
+      expect(page.from).toBe(301);
+      expect(page.to).toBe(312);
+    });
+
+    it('should handle empty results', () => {
+      const page = paginate([], { page: 1, pageSize: 20 });
+
+      expect(page.totalPages).toBe(1);
+      expect(page.from).toBe(0);
+      expect(page.to).toBe(0);
+    });
+  });
+
+  describe('toPage', () => {
+    it('should describe a page selected by the backend', () => {
+      const page = toPage([41, 42], 42, { page: 3, pageSize: 20 });
+
+      expect(page.from).toBe(41);
+      expect(page.to).toBe(42);
+      expect(page.totalPages).toBe(3);
+    });
+  });
+
+  describe('buildPagination', () => {
+    it('should link neighbouring pages with ellipses and keep other parameters', () => {
+      const page = paginate(items, { page: 5, pageSize: 20 });
+      const pagination = buildPagination(page, '/tasks', new URLSearchParams('status=PENDING'));
+
+      expect(pagination.previous).toEqual({ href: '/tasks?status=PENDING&page=4' });
+      expect(pagination.next).toEqual({ href: '/tasks?status=PENDING&page=6' });
+      expect(pagination.items.map(item => (item.ellipsis ? '...' : item.number))).toEqual([
+        1,
+        '...',
+        4,
+        5,
+        6,
+        '...',
+        16,
+      ]);
+      expect(pagination.items.find(item => item.current)?.number).toBe(5);
+    });
+
+    it('should omit previous and next links on the first and last pages', () => {
+      const first = buildPagination(paginate(items, { page: 1, pageSize: 20 }), '/tasks', new URLSearchParams());
+      const last = buildPagination(paginate(items, { page: 16, pageSize: 20 }), '/tasks', new URLSearchParams());
+
+      expect(first.previous).toBeUndefined();
+      expect(last.next).toBeUndefined();
+    });
+  });
+});
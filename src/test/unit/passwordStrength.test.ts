@@ -0,0 +1,26 @@
+import { checkPasswordStrength } from '../../main/utils/passwordStrength';
+
+describe('checkPasswordStrength', () => {
+  it('should accept a long password with letters and numbers', () => {
+    expect(checkPasswordStrength('correct horse 1')).toBeUndefined();
+    expect(checkPasswordStrength('abcdefghijk1')).toBeUndefined();
+  });
+
+  it('should ask for a password when none is given', () => {
+    expect(checkPasswordStrength('')).toBe('Enter a new password');
+    expect(checkPasswordStrength(undefined)).toBe('Enter a new password');
+    expect(checkPasswordStrength(['array'])).toBe('Enter a new password');
+  });
+
+  it('should reject passwords that are too short or too long', () => {
+    expect(checkPasswordStrength('abcdefghij1')).toBe('Password must be 12 characters or more');
+    expect(checkPasswordStrength(`a1${'x'.repeat(127)}`)).toBe('Password must be 128 characters or fewer');
+  });
+
+  it('should require both letters and numbers', () => {
+    expect(checkPasswordStrength('correct horse battery')).toBe(
+      'Password must include at least one letter and one number'
+    );
+    expect(checkPasswordStrength('123456789012')).toBe('Password must include at least one letter and one number');
+  });
+});
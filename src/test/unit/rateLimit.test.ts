@@ -0,0 +1,188 @@
+import {
+  RateLimitConfig,
+  applyRateLimiting,
+  createAttemptCounter,
+  createRateLimitStoreFactory,
+  getRateLimitConfig,
+  loginKey,
+  userKey,
+} from '../../main/middleware/rateLimit';
+
+import config from 'config';
+import { Application, Request } from 'express';
+import { MemoryStore } from 'express-rate-limit';
+import Redis from 'ioredis';
+
+jest.mock('../../main/utils/logger');
+jest.mock('ioredis', () => jest.fn().mockImplementation(() => ({ on: jest.fn(), call: jest.fn() })));
+jest.mock('config', () => ({
+  has: jest.fn(() => false),
+  get: jest.fn(),
+}));
+
+function rateLimitConfig(overrides: Partial<RateLimitConfig>): RateLimitConfig {
+  return {
+    anonymous: { windowMs: 60000, max: 100 },
+    limiters: {
+      login: { windowMs: 60000, max: 10, key: 'ipAndEmail' },
+      user: { windowMs: 60000, max: 1000, key: 'user' },
+    },
+    routes: { '/auth/validate-email': 'login' },
+    store: 'memory',
+    redis: { url: 'redis://localhost:6379', prefix: 'rl:' },
+    ...overrides,
+  };
+}
+
+function mockRequest(overrides: Record<string, unknown>): Request {
+  return { ip: '10.0.0.1', body: {}, session: {}, ...overrides } as unknown as Request;
+}
+
+describe('Rate limiting', () => {
+  describe('getRateLimitConfig', () => {
+    it('should default to a strict login limiter on the sign-in routes', () => {
+      // Given
+      (config.has as jest.Mock).mockReturnValue(false);
+
+      // When
+      const result = getRateLimitConfig();
+
+      // Then
+      expect(result.store).toBe('memory');
+      expect(result.anonymous.max).toBe(100);
+      expect(result.limiters.login).toEqual({ windowMs: 900000, max: 10, key: 'ipAndEmail' });
+      expect(result.routes).toEqual({
+        '/auth/validate-email': 'login',
+        '/auth/authenticate': 'login',
+        '/auth/verify-code': 'login',
+        '/auth/resend-code': 'login',
+        '/auth/forgotten-password': 'login',
+        '/auth/reset-password': 'login',
+      });
+    });
+
+    it('should merge configured limiters and routes over the defaults', () => {
+      // Given
+      (config.has as jest.Mock).mockReturnValue(true);
+      (config.get as jest.Mock).mockImplementation(
+        (key: string) =>
+          ({
+            'rateLimiting.limiters': { login: { max: 3 }, search: { windowMs: 60000, max: 30 } },
+            'rateLimiting.routes': { '/tasks/search': 'search' },
+            'rateLimiting.store': 'redis',
+            'session.redis.url': 'redis://cache:6379',
+          })[key]
+      );
+
+      // When
+      const result = getRateLimitConfig();
+
+      // Then
+      expect(result.limiters.login).toEqual({ windowMs: 900000, max: 3, key: 'ipAndEmail' });
+      expect(result.limiters.search).toEqual({ windowMs: 60000, max: 30 });
+      expect(result.routes['/tasks/search']).toBe('search');
+      expect(result.routes['/auth/authenticate']).toBe('login');
+      expect(result.redis).toEqual({ url: 'redis://cache:6379', prefix: 'rl:' });
+    });
+  });
+
+  describe('loginKey', () => {
+    it('should combine the IP with a hash of the email', () => {
+      const key = loginKey(mockRequest({ body: { email: 'Test@Example.com ' } }));
+
+      expect(key).toMatch(/^10\.0\.0\.1:[0-9a-f]{64}$/);
+      expect(key).not.toContain('example.com');
+      expect(key).toBe(loginKey(mockRequest({ body: { email: 'test@example.com' } })));
+    });
+
+    it('should use the email from the previous step on the password step', () => {
+      expect(loginKey(mockRequest({ session: { tempEmail: 'test@example.com' } }))).toBe(
+        loginKey(mockRequest({ body: { email: 'test@example.com' } }))
+      );
+    });
+
+    it('should use the email of the pending sign-in on the one-time code step', () => {
+      expect(loginKey(mockRequest({ session: { pendingTwoFactor: { email: 'test@example.com' } } }))).toBe(
+        loginKey(mockRequest({ body: { email: 'test@example.com' } }))
+      );
+    });
+
+    it('should give different emails from one IP separate keys', () => {
+      expect(loginKey(mockRequest({ body: { email: 'a@example.com' } }))).not.toBe(
+        loginKey(mockRequest({ body: { email: 'b@example.com' } }))
+      );
+    });
+  });
+
+  describe('userKey', () => {
+    it('should key by the signed-in user regardless of IP', () => {
+      const session = { email: 'test@example.com', token: 'jwt-token' };
+
+      expect(userKey(mockRequest({ ip: '10.0.0.1', session }))).toBe(userKey(mockRequest({ ip: '10.0.0.2', session })));
+    });
+  });
+
+  describe('createRateLimitStoreFactory', () => {
+    it('should create a separate memory store for each limiter', () => {
+      const createStore = createRateLimitStoreFactory(rateLimitConfig({ store: 'memory' }));
+
+      const login = createStore('login');
+
+      expect(login).toBeInstanceOf(MemoryStore);
+      expect(createStore('user')).not.toBe(login);
+    });
+
+    it('should share one Redis client between factories for the same URL', () => {
+      createRateLimitStoreFactory(rateLimitConfig({ store: 'redis' }));
+      createRateLimitStoreFactory(rateLimitConfig({ store: 'redis' }));
+
+      expect(Redis).toHaveBeenCalledTimes(1);
+      expect(Redis).toHaveBeenCalledWith('redis://localhost:6379');
+    });
+
+    it('should reject unknown drivers', () => {
+      expect(() =>
+        createRateLimitStoreFactory(rateLimitConfig({ store: 'mongo' as RateLimitConfig['store'] }))
+      ).toThrow('Unknown rate limit store "mongo"');
+    });
+  });
+
+  describe('createAttemptCounter', () => {
+    it('should count each attempt and give back released ones', async () => {
+      const counter = createAttemptCounter('code-attempts', 60000, rateLimitConfig({ store: 'memory' }));
+
+      expect(await counter.reserve('session-1:challenge')).toBe(1);
+      expect(await counter.reserve('session-1:challenge')).toBe(2);
+      await counter.release('session-1:challenge');
+
+      expect(await counter.reserve('session-1:challenge')).toBe(2);
+      expect(await counter.reserve('session-2:challenge')).toBe(1);
+    });
+  });
+
+  describe('applyRateLimiting', () => {
+    it('should share one limiter between the routes that name it', () => {
+      // Given
+      const app = { use: jest.fn() } as unknown as Application;
+
+      // When
+      applyRateLimiting(
+        app,
+        rateLimitConfig({ routes: { '/auth/validate-email': 'login', '/auth/authenticate': 'login' } })
+      );
+
+      // Then
+      const routeCalls = (app.use as jest.Mock).mock.calls.filter(call => typeof call[0] === 'string');
+      expect(routeCalls.map(call => call[0])).toEqual(['/auth/validate-email', '/auth/authenticate']);
+      expect(routeCalls[0][1]).toBe(routeCalls[1][1]);
+    });
+
+    it('should reject routes that refer to an unknown limiter', () => {
+      const app = { use: jest.fn() } as unknown as Application;
+
+      expect(() => applyRateLimiting(app, rateLimitConfig({ routes: { '/tasks': 'missing' } }))).toThrow(
+        'Rate limit route "/tasks" refers to unknown limiter "missing"'
+      );
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { maskEmails, redact, serialiseError } from '../../main/utils/redact';
+
+import { AxiosError, AxiosHeaders } from 'axios';
+
+describe('maskEmails', () => {
+  it('should keep the first character and the domain', () => {
+    expect(maskEmails('test@example.com')).toBe('t***@example.com');
+  });
+
+  it('should mask every address in a sentence', () => {
+    expect(maskEmails('From alice@example.com to bob.smith@example.co.uk')).toBe(
+      'From a***@example.com to b***@example.co.uk'
+    );
+  });
+
+  it('should leave text without addresses unchanged', () => {
+    expect(maskEmails('Authentication failed')).toBe('Authentication failed');
+  });
+});
+
+describe('redact', () => {
+  it('should drop sensitive keys at any depth, whatever their case', () => {
+    const result = redact({
+      email: 'test@example.com',
+      password: 'Password1!',
+      session: { token: 'jwt', csrfToken: 'abc', nested: [{ Authorization: 'Bearer jwt', id: 1 }] },
+    });
+
+    expect(result).toEqual({
+      email: 't***@example.com',
+      session: { nested: [{ id: 1 }] },
+    });
+  });
+
+  it('should use the configured keys', () => {
+    const result = redact(
+      { apiKey: 'secret', password: 'kept' },
+      { enabled: true, maskEmails: true, keys: ['apiKey'] }
+    );
+
+    expect(result).toEqual({ password: 'kept' });
+  });
+
+  it('should return the value untouched when disabled', () => {
+    const meta = { email: 'test@example.com', password: 'Password1!' };
+
+    expect(redact(meta, { enabled: false, maskEmails: true, keys: ['password'] })).toBe(meta);
+  });
+
+  it('should not follow circular references', () => {
+    const meta: Record<string, unknown> = { id: 1 };
+    meta.self = meta;
+
+    expect(redact(meta)).toEqual({ id: 1, self: '[Circular]' });
+  });
+
+  it('should keep primitives, nulls and dates', () => {
+    const date = new Date('2026-03-02T10:00:00Z');
+
+    expect(redact({ count: 2, ok: true, missing: null, at: date })).toEqual({
+      count: 2,
+      ok: true,
+      missing: null,
+      at: '2026-03-02T10:00:00.000Z',
+    });
+  });
+});
+
+describe('serialiseError', () => {
+  it('should keep only the request summary from an AxiosError', () => {
+    const error = new AxiosError(
+      'Request failed with status code 401',
+      'ERR_BAD_REQUEST',
+      {
+        method: 'get',
+        url: 'http://localhost:4000/api/tasks?token=abc',
+        headers: new AxiosHeaders({ Authorization: 'Bearer jwt' }),
+      },
+      {},
+      {
+        status: 401,
+        statusText: 'Unauthorized',
+        data: { email: 'test@example.com' },
+        headers: {},
+        config: { headers: new AxiosHeaders() },
+      }
+    );
+
+    expect(serialiseError(error)).toEqual({
+      name: 'AxiosError',
+      message: 'Request failed with status code 401',
+      code: 'ERR_BAD_REQUEST',
+      method: 'GET',
+      url: 'http://localhost:4000/api/tasks',
+      status: 401,
+    });
+  });
+
+  it('should keep the name and message of other errors', () => {
+    expect(serialiseError(new TypeError('Bad input'))).toEqual({ name: 'TypeError', message: 'Bad input' });
+  });
+
+  it('should be applied to errors nested in metadata', () => {
+    const result = redact({ error: new Error('Lookup failed for test@example.com') });
+
+    expect(result).toEqual({ error: { name: 'Error', message: 'Lookup failed for t***@example.com' } });
+  });
+});
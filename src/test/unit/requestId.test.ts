@@ -0,0 +1,64 @@
+import { REQUEST_ID_HEADER, requestId } from '../../main/middleware/requestId';
+import { getRequestId, requestIdHeaders } from '../../main/utils/requestContext';
+
+import { NextFunction, Request, Response } from 'express';
+
+describe('requestId middleware', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  const withHeader = (value?: string) =>
+    ({ get: jest.fn((name: string) => (name === REQUEST_ID_HEADER ? value : undefined)) }) as unknown as Request;
+
+  beforeEach(() => {
+    mockResponse = { locals: {}, setHeader: jest.fn() };
+  });
+
+  it('should reuse a valid incoming request ID', () => {
+    mockRequest = withHeader('abc-123');
+    const next = jest.fn();
+
+    requestId(mockRequest as Request, mockResponse as Response, next as NextFunction);
+
+    expect(mockResponse.setHeader).toHaveBeenCalledWith(REQUEST_ID_HEADER, 'abc-123');
+    expect(mockResponse.locals?.requestId).toBe('abc-123');
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should generate an ID when none is sent', () => {
+    mockRequest = withHeader(undefined);
+
+    requestId(mockRequest as Request, mockResponse as Response, jest.fn());
+
+    expect(mockResponse.locals?.requestId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should replace an ID that is unsafe to log', () => {
+    mockRequest = withHeader('bad id\n{"level":"error"}');
+
+    requestId(mockRequest as Request, mockResponse as Response, jest.fn());
+
+    expect(mockResponse.locals?.requestId).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should make the ID available to code running in the request', async () => {
+    mockRequest = withHeader('abc-123');
+    let seen: Record<string, string> = {};
+
+    await new Promise<void>(resolve => {
+      requestId(
+        mockRequest as Request,
+        mockResponse as Response,
+        (() => {
+          setTimeout(() => {
+            seen = requestIdHeaders();
+            resolve();
+          }, 0);
+        }) as NextFunction
+      );
+    });
+
+    expect(seen).toEqual({ 'X-Request-Id': 'abc-123' });
+    expect(getRequestId()).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { formatWait, parseRetryAfter } from '../../main/utils/retryAfter';
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-01-15T10:00:00Z');
+
+  it('should read a number of seconds', () => {
+    expect(parseRetryAfter('240', now)).toBe(240);
+    expect(parseRetryAfter(' 30 ', now)).toBe(30);
+  });
+
+  it('should read an HTTP date as seconds from now', () => {
+    expect(parseRetryAfter('Mon, 15 Jan 2024 10:04:00 GMT', now)).toBe(240);
+  });
+
+  it('should ignore missing, malformed and past values', () => {
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter('', now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter('0', now)).toBeUndefined();
+    expect(parseRetryAfter('Mon, 15 Jan 2024 09:59:00 GMT', now)).toBeUndefined();
+  });
+});
+
+describe('formatWait', () => {
+  it('should show whole minutes, rounding up', () => {
+    expect(formatWait(240)).toBe('4 minutes');
+    expect(formatWait(181)).toBe('4 minutes');
+    expect(formatWait(60)).toBe('1 minute');
+  });
+
+  it('should show hours for long lockouts', () => {
+    expect(formatWait(3600)).toBe('1 hour');
+    expect(formatWait(86400)).toBe('24 hours');
+  });
+
+  it('should show seconds in the last minute', () => {
+    expect(formatWait(45)).toBe('45 seconds');
+    expect(formatWait(1)).toBe('1 second');
+  });
+});
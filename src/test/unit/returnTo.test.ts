@@ -0,0 +1,49 @@
+import { toSafeReturnPath } from '../../main/utils/returnTo';
+
+describe('toSafeReturnPath', () => {
+  it('should accept same-origin paths with query strings', () => {
+    expect(toSafeReturnPath('/tasks')).toBe('/tasks');
+    expect(toSafeReturnPath('/tasks/create')).toBe('/tasks/create');
+    expect(toSafeReturnPath('/tasks?status=PENDING&page=2')).toBe('/tasks?status=PENDING&page=2');
+  });
+
+  it('should reject absolute URLs', () => {
+    expect(toSafeReturnPath('https://evil.example.com/tasks')).toBeUndefined();
+    expect(toSafeReturnPath('javascript:alert(1)')).toBeUndefined();
+    expect(toSafeReturnPath('tasks')).toBeUndefined();
+  });
+
+  it('should reject protocol-relative URLs', () => {
+    expect(toSafeReturnPath('//evil.example.com')).toBeUndefined();
+    expect(toSafeReturnPath('///evil.example.com')).toBeUndefined();
+  });
+
+  it('should reject backslash tricks', () => {
+    expect(toSafeReturnPath('/\\evil.example.com')).toBeUndefined();
+    expect(toSafeReturnPath('\\\\evil.example.com')).toBeUndefined();
+    expect(toSafeReturnPath('/tasks\\..\\')).toBeUndefined();
+  });
+
+  it('should reject paths that become protocol-relative once dot segments are resolved', () => {
+    expect(toSafeReturnPath('/..//evil.com')).toBeUndefined();
+    expect(toSafeReturnPath('/tasks/..//evil.com')).toBeUndefined();
+    expect(toSafeReturnPath('/%2e%2e//evil.com')).toBeUndefined();
+    expect(toSafeReturnPath('/tasks/../tasks/create')).toBe('/tasks/create');
+  });
+
+  it('should reject control characters', () => {
+    expect(toSafeReturnPath('/\t/evil.example.com')).toBeUndefined();
+    expect(toSafeReturnPath('/tasks\r\nLocation: https://evil.example.com')).toBeUndefined();
+  });
+
+  it('should reject sign-in pages so users do not land back on them', () => {
+    expect(toSafeReturnPath('/auth/login')).toBeUndefined();
+    expect(toSafeReturnPath('/auth/logout')).toBeUndefined();
+  });
+
+  it('should reject values that are not strings or are too long', () => {
+    expect(toSafeReturnPath(undefined)).toBeUndefined();
+    expect(toSafeReturnPath(['/tasks'])).toBeUndefined();
+    expect(toSafeReturnPath('/' + 'a'.repeat(2000))).toBeUndefined();
+  });
+});
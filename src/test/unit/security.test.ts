@@ -1,11 +1,15 @@
 import {
   detectSuspiciousActivity,
+  getSecurityOptions,
+  redactPath,
   requestLogger,
   sanitizeInput,
   securityHeaders,
+  suspiciousActivityDetector,
   validateContentType,
 } from '../../main/middleware/security';
 
+import config from 'config';
 import { NextFunction, Request, Response } from 'express';
 
 // Mock logger
@@ -19,6 +23,17 @@ jest.mock('../../main/utils/logger', () => ({
 
 import { logger } from '../../main/utils/logger';
 
+describe('redactPath', () => {
+  it('should replace the token in password reset links', () => {
+    expect(redactPath('/auth/reset-password/abc123')).toBe('/auth/reset-password/[REDACTED]');
+  });
+
+  it('should leave other paths alone', () => {
+    expect(redactPath('/auth/reset-password')).toBe('/auth/reset-password');
+    expect(redactPath('/tasks/42')).toBe('/tasks/42');
+  });
+});
+
 describe('Security Middleware', () => {
   let mockRequest: Partial<Request>;
   let mockResponse: Partial<Response>;
@@ -100,6 +115,25 @@ describe('Security Middleware', () => {
   });
 
   describe('requestLogger', () => {
+    it('should not log password reset tokens from the path', () => {
+      let finishCallback: () => void = () => {};
+      (mockResponse.on as jest.Mock).mockImplementation((event: string, callback: () => void) => {
+        if (event === 'finish') {
+          finishCallback = callback;
+        }
+      });
+      mockRequest = { ...mockRequest, path: '/auth/reset-password/secret-reset-token' };
+
+      requestLogger(mockRequest as Request, mockResponse as Response, nextFunction);
+      finishCallback();
+
+      expect(logger.info).toHaveBeenCalledWith(
+        'HTTP Request',
+        expect.objectContaining({ path: '/auth/reset-password/[REDACTED]' })
+      );
+      expect(JSON.stringify((logger.info as jest.Mock).mock.calls)).not.toContain('secret-reset-token');
+    });
+
     it('should log request details on response finish', () => {
       (mockRequest.get as jest.Mock).mockReturnValue('Mozilla/5.0');
       let finishCallback: () => void = () => {};
@@ -182,10 +216,20 @@ describe('Security Middleware', () => {
       expect(nextFunction).toHaveBeenCalled();
     });
 
-    it('should reject POST requests without content-type', () => {
+    it('should allow POST requests with no body and no content-type', () => {
       mockRequest.method = 'POST';
       (mockRequest.get as jest.Mock).mockReturnValue(undefined);
 
+      validateContentType(mockRequest as Request, mockResponse as Response, nextFunction);
+      expect(nextFunction).toHaveBeenCalled();
+    });
+
+    it('should reject POST requests without content-type', () => {
+      mockRequest.method = 'POST';
+      (mockRequest.get as jest.Mock).mockImplementation((name: string) =>
+        name === 'content-length' ? '12' : undefined
+      );
+
       validateContentType(mockRequest as Request, mockResponse as Response, nextFunction);
 
       expect(mockResponse.status).toHaveBeenCalledWith(400);
@@ -326,6 +370,14 @@ describe('Security Middleware', () => {
       expect(nextFunction).not.toHaveBeenCalled();
     });
 
+    it('should detect javascript: protocol in a return path query parameter', () => {
+      mockRequest.query = { returnTo: ' javascript:alert(1)' };
+
+      detectSuspiciousActivity(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+    });
+
     it('should detect onerror event handler', () => {
       mockRequest.query = { input: '<img src=x onerror=alert(1)>' };
 
@@ -356,21 +408,116 @@ describe('Security Middleware', () => {
     });
 
     it('should handle case-insensitive SQL keywords', () => {
-      mockRequest.body = { query: 'SELECT * FROM users' };
+      mockRequest.body = { query: "x' union all select NULL, password FROM users" };
 
       detectSuspiciousActivity(mockRequest as Request, mockResponse as Response, nextFunction);
 
       expect(mockResponse.status).toHaveBeenCalledWith(403);
     });
 
-    it('should allow legitimate use of flagged words in context', () => {
-      // The word "select" in a normal sentence should still trigger due to pattern
-      mockRequest.body = { message: 'Please select an option from the menu' };
+    it('should detect an always-true condition', () => {
+      mockRequest.body = { email: "' OR '1'='1" };
 
       detectSuspiciousActivity(mockRequest as Request, mockResponse as Response, nextFunction);
 
-      // This will be blocked due to simple pattern matching - which is expected behavior
       expect(mockResponse.status).toHaveBeenCalledWith(403);
     });
+
+    it.each([
+      'Please select an option from the menu',
+      'Update the select committee bundle',
+      'Drop the union claim and delete the duplicate exhibit',
+      "Review 'Union select committee' report",
+      'Execute the order; update the hearing bundle',
+      'See paragraphs 3..5 of the judgment',
+      'JavaScript: fix listings widget',
+      'Check exhibits (A to C); delete from the bundle any duplicates',
+      'Chase the expert ("Dr Smith"); insert into the trial bundle',
+      'SELECT * FROM users',
+    ])('should allow legal text that mentions flagged words: %s', text => {
+      mockRequest.body = { title: text, description: text };
+
+      detectSuspiciousActivity(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(nextFunction).toHaveBeenCalled();
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+
+    it('should allow stacked statements in prose fields but not in other fields', () => {
+      mockRequest.body = { reason: "Hearing vacated ('listing error'); update bundle set aside" };
+
+      detectSuspiciousActivity(mockRequest as Request, mockResponse as Response, nextFunction);
+      expect(nextFunction).toHaveBeenCalled();
+
+      mockRequest.body = { email: "x'; update users set role='admin" };
+      detectSuspiciousActivity(mockRequest as Request, mockResponse as Response, nextFunction);
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+    });
+
+    it('should not check passwords or CSRF tokens', () => {
+      mockRequest.body = { password: "<script>'; DROP TABLE users", _csrf: '../..' };
+
+      detectSuspiciousActivity(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(nextFunction).toHaveBeenCalled();
+    });
+
+    it('should log the field that matched', () => {
+      mockRequest.body = { task: { title: '<script>alert(1)</script>' } };
+
+      detectSuspiciousActivity(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Suspicious activity detected',
+        expect.objectContaining({ pattern: 'script-tag', field: 'title', reportOnly: false })
+      );
+    });
+  });
+
+  describe('suspiciousActivityDetector in report-only mode', () => {
+    it('should log suspicious requests without blocking them', () => {
+      mockRequest.query = { search: "' UNION SELECT * FROM users --" };
+
+      suspiciousActivityDetector({ reportOnly: true })(mockRequest as Request, mockResponse as Response, nextFunction);
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Suspicious activity detected',
+        expect.objectContaining({ pattern: 'sql-union', reportOnly: true })
+      );
+      expect(nextFunction).toHaveBeenCalled();
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSecurityOptions', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should enable everything and block by default', () => {
+      jest.spyOn(config, 'has').mockReturnValue(false);
+
+      expect(getSecurityOptions()).toEqual({
+        requestLogging: true,
+        securityHeaders: true,
+        contentTypeValidation: true,
+        suspiciousActivity: { enabled: true, reportOnly: false },
+      });
+    });
+
+    it('should read switches from config', () => {
+      const settings: Record<string, boolean> = {
+        'security.requestLogging': false,
+        'security.suspiciousActivity.reportOnly': true,
+      };
+      jest.spyOn(config, 'has').mockImplementation(key => key in settings);
+      jest.spyOn(config, 'get').mockImplementation(key => settings[key]);
+
+      expect(getSecurityOptions()).toMatchObject({
+        requestLogging: false,
+        securityHeaders: true,
+        suspiciousActivity: { enabled: true, reportOnly: true },
+      });
+    });
   });
 });
@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { SessionStoreConfig, createSessionStore, getSessionStoreConfig } from '../../main/modules/session';
+
+import config from 'config';
+import session, { SessionData } from 'express-session';
+import Redis from 'ioredis';
+
+// Run the Redis driver against an in-process stand-in rather than a real server
+jest.mock('ioredis', () => require('ioredis-mock'));
+jest.mock('../../main/utils/logger');
+jest.mock('config', () => ({
+  has: jest.fn(() => false),
+  get: jest.fn(),
+}));
+
+const sessionData = {
+  cookie: { originalMaxAge: 60000, expires: new Date(Date.now() + 60000) },
+  token: 'jwt-token',
+  email: 'test@example.com',
+} as unknown as SessionData;
+
+function storeConfig(overrides: Partial<SessionStoreConfig>): SessionStoreConfig {
+  return {
+    driver: 'memory',
+    maxAge: 60000,
+    file: { path: '.sessions' },
+    redis: { url: 'redis://localhost:6379', prefix: 'sess:' },
+    ...overrides,
+  };
+}
+
+function setSession(store: session.Store, sid: string, data: SessionData): Promise<void> {
+  return new Promise((resolve, reject) => store.set(sid, data, err => (err ? reject(err) : resolve())));
+}
+
+function getSession(store: session.Store, sid: string): Promise<SessionData | null | undefined> {
+  return new Promise((resolve, reject) => store.get(sid, (err, data) => (err ? reject(err) : resolve(data))));
+}
+
+describe('Session store', () => {
+  describe('getSessionStoreConfig', () => {
+    it('should default to an in-memory store with a 24 hour lifetime', () => {
+      // Given
+      (config.has as jest.Mock).mockReturnValue(false);
+
+      // When
+      const result = getSessionStoreConfig();
+
+      // Then
+      expect(result.driver).toBe('memory');
+      expect(result.maxAge).toBe(86400000);
+    });
+
+    it('should read the driver and lifetime from config', () => {
+      // Given
+      (config.has as jest.Mock).mockReturnValue(true);
+      (config.get as jest.Mock).mockImplementation(
+        (key: string) =>
+          ({ 'session.store': 'redis', 'session.maxAge': 1800000, 'session.redis.url': 'redis://cache:6379' })[key]
+      );
+
+      // When
+      const result = getSessionStoreConfig();
+
+      // Then
+      expect(result.driver).toBe('redis');
+      expect(result.maxAge).toBe(1800000);
+      expect(result.redis).toEqual({ url: 'redis://cache:6379', prefix: 'sess:' });
+    });
+  });
+
+  describe('createSessionStore', () => {
+    it('should create a memory store', () => {
+      expect(createSessionStore(storeConfig({ driver: 'memory' }))).toBeInstanceOf(session.MemoryStore);
+    });
+
+    it('should store sessions in Redis with a TTL taken from maxAge', async () => {
+      // Given
+      const store = createSessionStore(storeConfig({ driver: 'redis', maxAge: 1800000 }));
+
+      // When
+      await setSession(store, 'abc123', sessionData);
+      const result = await getSession(store, 'abc123');
+
+      // Then
+      expect(result).toEqual(expect.objectContaining({ token: 'jwt-token', email: 'test@example.com' }));
+      const redis = new Redis('redis://localhost:6379');
+      expect(await redis.exists('sess:abc123')).toBe(1);
+      expect(await redis.ttl('sess:abc123')).toBeGreaterThan(0);
+    });
+
+    it('should store sessions on disk', async () => {
+      // Given
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+      const store = createSessionStore(storeConfig({ driver: 'file', file: { path: directory } }));
+
+      try {
+        // When
+        await setSession(store, 'abc123', sessionData);
+        const result = await getSession(store, 'abc123');
+
+        // Then
+        expect(result).toEqual(expect.objectContaining({ token: 'jwt-token' }));
+        expect(fs.existsSync(path.join(directory, 'abc123.json'))).toBe(true);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject unknown drivers', () => {
+      expect(() => createSessionStore(storeConfig({ driver: 'mongo' as SessionStoreConfig['driver'] }))).toThrow(
+        'Unknown session store "mongo"'
+      );
+    });
+  });
+});
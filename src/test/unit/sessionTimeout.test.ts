@@ -0,0 +1,112 @@
+import { getSessionTimeoutOptions, sessionTimeout } from '../../main/middleware/sessionTimeout';
+
+import config from 'config';
+import { NextFunction, Request, Response } from 'express';
+
+jest.mock('../../main/utils/logger');
+jest.mock('config', () => ({
+  has: jest.fn(() => false),
+  get: jest.fn(),
+}));
+
+describe('Session timeout', () => {
+  const options = { idleTimeout: 1200000, warningBefore: 120000, maxAge: 86400000 };
+  let mockResponse: Partial<Response>;
+  let mockNext: jest.MockedFunction<NextFunction>;
+
+  beforeEach(() => {
+    mockResponse = { locals: {}, redirect: jest.fn() };
+    mockNext = jest.fn();
+  });
+
+  describe('getSessionTimeoutOptions', () => {
+    it('should default to a 20 minute idle timeout with a 2 minute warning', () => {
+      expect(getSessionTimeoutOptions()).toEqual({ idleTimeout: 1200000, warningBefore: 120000, maxAge: 86400000 });
+    });
+
+    it('should never warn before the session starts', () => {
+      // Given
+      (config.has as jest.Mock).mockReturnValue(true);
+      (config.get as jest.Mock).mockImplementation(
+        (key: string) => ({ 'session.idleTimeout': 60000, 'session.timeoutWarning': 120000 })[key]
+      );
+
+      // When
+      const result = getSessionTimeoutOptions();
+
+      // Then
+      expect(result.warningBefore).toBe(60000);
+    });
+
+    it('should keep a warning time of 0 rather than fall back to the default', () => {
+      // Given
+      (config.has as jest.Mock).mockReturnValue(true);
+      (config.get as jest.Mock).mockImplementation((key: string) => ({ 'session.timeoutWarning': 0 })[key]);
+
+      // When
+      const result = getSessionTimeoutOptions();
+
+      // Then
+      expect(result).toEqual({ idleTimeout: 1200000, warningBefore: 0, maxAge: 86400000 });
+    });
+  });
+
+  describe('sessionTimeout', () => {
+    it('should not show the warning when it is turned off', () => {
+      // Given
+      const mockRequest = { session: { token: 'jwt-token', signedInAt: Date.now() } } as unknown as Request;
+
+      // When
+      sessionTimeout({ ...options, warningBefore: 0 })(mockRequest, mockResponse as Response, mockNext);
+
+      // Then
+      expect(mockResponse.locals?.sessionTimeout).toBeUndefined();
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should expose the timeout in seconds to templates for signed in users', () => {
+      // Given
+      const mockRequest = {
+        session: { token: 'jwt-token', signedInAt: Date.now() },
+      } as unknown as Request;
+
+      // When
+      sessionTimeout(options)(mockRequest, mockResponse as Response, mockNext);
+
+      // Then
+      expect(mockResponse.locals?.sessionTimeout).toEqual({ idleTimeout: 1200, warningBefore: 120 });
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should do nothing for signed out users', () => {
+      // Given
+      const mockRequest = { session: {} } as unknown as Request;
+
+      // When
+      sessionTimeout(options)(mockRequest, mockResponse as Response, mockNext);
+
+      // Then
+      expect(mockResponse.locals?.sessionTimeout).toBeUndefined();
+      expect(mockNext).toHaveBeenCalled();
+    });
+
+    it('should end sessions older than the maximum age, however active', () => {
+      // Given
+      const regenerate = jest.fn((callback: () => void) => callback());
+      const mockRequest = {
+        method: 'GET',
+        path: '/tasks',
+        originalUrl: '/tasks',
+        session: { token: 'jwt-token', signedInAt: Date.now() - 86400001, regenerate },
+      } as unknown as Request;
+
+      // When
+      sessionTimeout(options)(mockRequest, mockResponse as Response, mockNext);
+
+      // Then
+      expect(mockRequest.session.token).toBeUndefined();
+      expect(mockResponse.redirect).toHaveBeenCalledWith('/auth/login');
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { applyTaskFilters, hasActiveFilters, parseTaskFilters, toBackendParams } from '../../main/utils/taskFilters';
+
+describe('Task filters', () => {
+  const tasks = [
+    { id: 1, title: 'File bundle', description: 'Court bundle', status: 'PENDING', overdue: true, dueToday: false },
+    {
+      id: 2,
+      title: 'Call witness',
+      description: 'Arrange hearing',
+      status: 'IN_PROGRESS',
+      overdue: false,
+      dueToday: true,
+    },
+    { id: 3, title: 'Send order', description: '', status: 'COMPLETED', overdue: false, dueToday: false },
+  ];
+
+  describe('parseTaskFilters', () => {
+    it('should return empty filters for an empty query', () => {
+      const filters = parseTaskFilters({});
+
+      expect(filters).toEqual({ statuses: [], due: [], search: '' });
+      expect(hasActiveFilters(filters)).toBe(false);
+    });
+
+    it('should accept repeated and comma separated values', () => {
+      expect(parseTaskFilters({ status: ['PENDING', 'COMPLETED'] }).statuses).toEqual(['PENDING', 'COMPLETED']);
+      expect(parseTaskFilters({ due: 'overdue,dueToday' }).due).toEqual(['overdue', 'dueToday']);
+    });
+
+    it('should drop unknown and duplicate values', () => {
+      const filters = parseTaskFilters({ status: ['PENDING', 'DONE', 'PENDING'], due: 'yesterday' });
+
+      expect(filters.statuses).toEqual(['PENDING']);
+      expect(filters.due).toEqual([]);
+    });
+
+    it('should trim the search text', () => {
+      const filters = parseTaskFilters({ search: '  bundle ' });
+
+      expect(filters.search).toBe('bundle');
+      expect(hasActiveFilters(filters)).toBe(true);
+    });
+
+    it('should ignore non-string search values', () => {
+      expect(parseTaskFilters({ search: { $ne: '' } }).search).toBe('');
+    });
+  });
+
+  describe('toBackendParams', () => {
+    it('should only include active filters', () => {
+      expect(toBackendParams({ statuses: ['PENDING', 'IN_PROGRESS'], due: [], search: 'bundle' })).toEqual({
+        status: 'PENDING,IN_PROGRESS',
+        search: 'bundle',
+      });
+    });
+  });
+
+  describe('applyTaskFilters', () => {
+    it('should filter by status', () => {
+      const result = applyTaskFilters(tasks, { statuses: ['COMPLETED'], due: [], search: '' });
+
+      expect(result.map(task => task.id)).toEqual([3]);
+    });
+
+    it('should filter by due state', () => {
+      expect(applyTaskFilters(tasks, { statuses: [], due: ['overdue'], search: '' }).map(task => task.id)).toEqual([1]);
+      expect(
+        applyTaskFilters(tasks, { statuses: [], due: ['dueToday', 'upcoming'], search: '' }).map(task => task.id)
+      ).toEqual([2, 3]);
+    });
+
+    it('should search titles and descriptions case-insensitively', () => {
+      expect(applyTaskFilters(tasks, { statuses: [], due: [], search: 'BUNDLE' }).map(task => task.id)).toEqual([1]);
+      expect(applyTaskFilters(tasks, { statuses: [], due: [], search: 'hearing' }).map(task => task.id)).toEqual([2]);
+    });
+
+    it('should combine filters', () => {
+      const result = applyTaskFilters(tasks, { statuses: ['PENDING', 'IN_PROGRESS'], due: ['dueToday'], search: '' });
+
+      expect(result.map(task => task.id)).toEqual([2]);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { TaskApiError, TaskService } from '../../main/services/taskService';
+
+import axios from 'axios';
+
+jest.mock('axios');
+jest.mock('../../main/utils/logger');
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('TaskService', () => {
+  let taskService: TaskService;
+  const mockBackendUrl = 'http://localhost:4000';
+  const token = 'mock-jwt-token';
+  const task = {
+    id: 1,
+    title: 'Test Task',
+    status: 'PENDING',
+    statusDisplayName: 'Pending',
+    dueDateTime: '2026-03-02T10:00:00',
+  };
+
+  beforeEach(() => {
+    taskService = new TaskService(mockBackendUrl, 5000);
+    jest.clearAllMocks();
+  });
+
+  describe('list', () => {
+    it('should return tasks from a plain list response', async () => {
+      // Given
+      mockedAxios.get.mockResolvedValue({ data: [task] });
+
+      // When
+      const result = await taskService.list(token);
+
+      // Then
+      expect(result).toEqual({ tasks: [task] });
+      expect(mockedAxios.get).toHaveBeenCalledWith(`${mockBackendUrl}/api/tasks`, {
+        timeout: 5000,
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    });
+
+    it('should pass query parameters and read a paged response', async () => {
+      // Given
+      mockedAxios.get.mockResolvedValue({ data: { content: [task], totalElements: 41 } });
+
+      // When
+      const result = await taskService.list(token, { status: 'PENDING', page: 0, size: 20 });
+
+      // Then
+      expect(result).toEqual({ tasks: [task], totalElements: 41 });
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        `${mockBackendUrl}/api/tasks`,
+        expect.objectContaining({ params: { status: 'PENDING', page: 0, size: 20 } })
+      );
+    });
+
+    it('should reject an unexpected response shape', async () => {
+      // Given
+      mockedAxios.get.mockResolvedValue({ data: { message: 'Not a list' } });
+
+      // When/Then
+      await expect(taskService.list(token)).rejects.toMatchObject({
+        name: 'TaskApiError',
+        statusCode: 502,
+      });
+    });
+  });
+
+  describe('get', () => {
+    it('should fetch a single task', async () => {
+      // Given
+      mockedAxios.get.mockResolvedValue({ data: task });
+
+      // When
+      const result = await taskService.get(token, 1);
+
+      // Then
+      expect(result).toEqual(task);
+      expect(mockedAxios.get).toHaveBeenCalledWith(`${mockBackendUrl}/api/tasks/1`, expect.any(Object));
+    });
+
+    it('should encode the task ID in the URL', async () => {
+      // Given
+      mockedAxios.get.mockResolvedValue({ data: task });
+
+      // When
+      await taskService.get(token, '../admin');
+
+      // Then
+      expect(mockedAxios.get).toHaveBeenCalledWith(`${mockBackendUrl}/api/tasks/..%2Fadmin`, expect.any(Object));
+    });
+
+    it('should throw TaskApiError with status 404 when the task does not exist', async () => {
+      // Given
+      mockedAxios.get.mockRejectedValue({
+        response: { status: 404, data: { message: 'Task not found' } },
+      });
+
+      // When/Then
+      await expect(taskService.get(token, 99)).rejects.toMatchObject({
+        message: 'Task not found',
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe('create', () => {
+    const request = {
+      title: 'Test Task',
+      status: 'PENDING' as const,
+      dueDateTime: '2026-03-02T10:00',
+    };
+
+    it('should post the task with a JSON content type', async () => {
+      // Given
+      mockedAxios.post.mockResolvedValue({ data: task });
+
+      // When
+      const result = await taskService.create(token, request);
+
+      // Then
+      expect(result).toEqual(task);
+      expect(mockedAxios.post).toHaveBeenCalledWith(`${mockBackendUrl}/api/tasks`, request, {
+        timeout: 5000,
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      });
+    });
+
+    it('should expose validation errors from the backend', async () => {
+      // Given
+      mockedAxios.post.mockRejectedValue({
+        response: {
+          status: 400,
+          data: { message: 'Validation failed', validationErrors: { title: 'Title is required' } },
+        },
+      });
+
+      // When
+      const error = await taskService.create(token, request).catch(e => e);
+
+      // Then
+      expect(error).toBeInstanceOf(TaskApiError);
+      expect(error.statusCode).toBe(400);
+      expect(error.validationErrors).toEqual({ title: 'Title is required' });
+    });
+  });
+
+  describe('update', () => {
+    it('should put the updated task', async () => {
+      // Given
+      const request = { title: 'Updated', status: 'IN_PROGRESS' as const, dueDateTime: '2026-03-02T10:00' };
+      mockedAxios.put.mockResolvedValue({ data: { ...task, ...request } });
+
+      // When
+      const result = await taskService.update(token, 1, request);
+
+      // Then
+      expect(result.title).toBe('Updated');
+      expect(mockedAxios.put).toHaveBeenCalledWith(`${mockBackendUrl}/api/tasks/1`, request, expect.any(Object));
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the task', async () => {
+      // Given
+      mockedAxios.delete.mockResolvedValue({ status: 204 });
+
+      // When
+      await taskService.delete(token, 1);
+
+      // Then
+      expect(mockedAxios.delete).toHaveBeenCalledWith(`${mockBackendUrl}/api/tasks/1`, {
+        timeout: 5000,
+        headers: { Authorization: `Bearer ${token}` },
+      });
+    });
+  });
+
+  describe('changeStatus', () => {
+    it('should patch the status without a reason', async () => {
+      // Given
+      mockedAxios.patch.mockResolvedValue({ data: { ...task, status: 'COMPLETED' } });
+
+      // When
+      await taskService.changeStatus(token, 1, 'COMPLETED');
+
+      // Then
+      expect(mockedAxios.patch).toHaveBeenCalledWith(
+        `${mockBackendUrl}/api/tasks/1/status`,
+        { status: 'COMPLETED' },
+        expect.any(Object)
+      );
+    });
+
+    it('should include the reason when reopening', async () => {
+      // Given
+      mockedAxios.patch.mockResolvedValue({ data: task });
+
+      // When
+      await taskService.changeStatus(token, 1, 'PENDING', 'Work resumed');
+
+      // Then
+      expect(mockedAxios.patch).toHaveBeenCalledWith(
+        `${mockBackendUrl}/api/tasks/1/status`,
+        { status: 'PENDING', reason: 'Work resumed' },
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('error handling', () => {
+    it('should handle network errors', async () => {
+      // Given
+      mockedAxios.get.mockRejectedValue({ request: {}, message: 'Network Error' });
+
+      // When/Then
+      await expect(taskService.get(token, 1)).rejects.toThrow('Network error: Unable to reach task service');
+    });
+
+    it('should fall back to a generic message when the backend gives none', async () => {
+      // Given
+      mockedAxios.delete.mockRejectedValue({ response: { status: 500, data: {} } });
+
+      // When/Then
+      await expect(taskService.delete(token, 1)).rejects.toThrow('An error occurred');
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { DEFAULT_SORT, buildSortColumns, parseTaskSort, sortTasks } from '../../main/utils/taskSorting';
+
+describe('Task sorting', () => {
+  const tasks = [
+    { id: 1, title: 'beta', status: 'COMPLETED', dueDateTime: '2025-12-20T10:00:00', createdAt: '2025-01-03T10:00:00' },
+    {
+      id: 2,
+      title: 'Alpha',
+      status: 'PENDING',
+      dueDateTime: '2025-11-01T10:00:00',
+      createdAt: '2025-01-01T10:00:00',
+      overdue: true,
+    },
+    {
+      id: 3,
+      title: 'gamma',
+      status: 'IN_PROGRESS',
+      dueDateTime: '2025-12-16T10:00:00',
+      createdAt: '2025-01-02T10:00:00',
+    },
+    { id: 4, title: 'delta', status: 'CANCELLED', createdAt: '2025-01-04T10:00:00' },
+  ];
+
+  const ids = (sorted: { id: number }[]) => sorted.map(task => task.id);
+
+  describe('parseTaskSort', () => {
+    it('should default to the nearest due date first', () => {
+      expect(parseTaskSort({})).toEqual(DEFAULT_SORT);
+      expect(DEFAULT_SORT).toEqual({ field: 'dueDateTime', order: 'asc' });
+    });
+
+    it('should accept known fields and orders', () => {
+      expect(parseTaskSort({ sort: 'title', order: 'desc' })).toEqual({ field: 'title', order: 'desc' });
+      expect(parseTaskSort({ sort: 'status', order: 'sideways' })).toEqual({ field: 'status', order: 'asc' });
+    });
+
+    it('should ignore unknown fields', () => {
+      expect(parseTaskSort({ sort: 'password', order: 'desc' })).toEqual(DEFAULT_SORT);
+    });
+  });
+
+  describe('sortTasks', () => {
+    it('should sort by due date with overdue tasks first and missing dates last', () => {
+      expect(ids(sortTasks(tasks, { field: 'dueDateTime', order: 'asc' }))).toEqual([2, 3, 1, 4]);
+      expect(ids(sortTasks(tasks, { field: 'dueDateTime', order: 'desc' }))).toEqual([2, 1, 3, 4]);
+    });
+
+    it('should sort titles case-insensitively while keeping overdue tasks first', () => {
+      expect(ids(sortTasks(tasks, { field: 'title', order: 'asc' }))).toEqual([2, 1, 4, 3]);
+    });
+
+    it('should sort statuses in workflow order', () => {
+      expect(ids(sortTasks(tasks, { field: 'status', order: 'asc' }))).toEqual([2, 3, 1, 4]);
+    });
+
+    it('should sort by creation date', () => {
+      expect(ids(sortTasks(tasks, { field: 'createdAt', order: 'desc' }))).toEqual([2, 4, 1, 3]);
+    });
+
+    it('should not modify the original array', () => {
+      const original = [...tasks];
+      sortTasks(tasks, { field: 'title', order: 'desc' });
+      expect(tasks).toEqual(original);
+    });
+  });
+
+  describe('buildSortColumns', () => {
+    it('should mark the active column and toggle its order', () => {
+      const columns = buildSortColumns({ field: 'title', order: 'asc' }, new URLSearchParams('status=PENDING'));
+      const title = columns.find(column => column.field === 'title');
+      const status = columns.find(column => column.field === 'status');
+
+      expect(title?.sorted).toBe('ascending');
+      expect(title?.href).toBe('/tasks?status=PENDING&sort=title&order=desc');
+      expect(status?.sorted).toBeUndefined();
+      expect(status?.href).toBe('/tasks?status=PENDING&sort=status&order=asc');
+    });
+  });
+});
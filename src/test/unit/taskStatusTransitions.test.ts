@@ -0,0 +1,52 @@
+import { isTaskStatus, validateStatusTransition } from '../../main/utils/taskStatusTransitions';
+
+describe('Task status transitions', () => {
+  describe('isTaskStatus', () => {
+    it('should accept known statuses', () => {
+      expect(isTaskStatus('PENDING')).toBe(true);
+      expect(isTaskStatus('IN_PROGRESS')).toBe(true);
+      expect(isTaskStatus('COMPLETED')).toBe(true);
+      expect(isTaskStatus('CANCELLED')).toBe(true);
+    });
+
+    it('should reject unknown values', () => {
+      expect(isTaskStatus('DONE')).toBe(false);
+      expect(isTaskStatus(undefined)).toBe(false);
+      expect(isTaskStatus(['PENDING'])).toBe(false);
+    });
+  });
+
+  describe('validateStatusTransition', () => {
+    it('should allow completing or cancelling an open task', () => {
+      expect(validateStatusTransition('PENDING', 'COMPLETED')).toBeUndefined();
+      expect(validateStatusTransition('IN_PROGRESS', 'COMPLETED')).toBeUndefined();
+      expect(validateStatusTransition('PENDING', 'CANCELLED')).toBeUndefined();
+      expect(validateStatusTransition('IN_PROGRESS', 'CANCELLED')).toBeUndefined();
+    });
+
+    it('should allow reopening a completed task without a reason', () => {
+      expect(validateStatusTransition('COMPLETED', 'PENDING')).toBeUndefined();
+    });
+
+    it('should require a reason to reopen a cancelled task', () => {
+      expect(validateStatusTransition('CANCELLED', 'PENDING')).toBe('Enter a reason for reopening a cancelled task');
+      expect(validateStatusTransition('CANCELLED', 'PENDING', '   ')).toBe(
+        'Enter a reason for reopening a cancelled task'
+      );
+      expect(validateStatusTransition('CANCELLED', 'PENDING', 'Hearing relisted')).toBeUndefined();
+    });
+
+    it('should reject transitions that are not allowed', () => {
+      expect(validateStatusTransition('CANCELLED', 'COMPLETED', 'reason')).toBe(
+        'Tasks that are cancelled cannot be marked as completed'
+      );
+      expect(validateStatusTransition('COMPLETED', 'CANCELLED')).toBe(
+        'Tasks that are completed cannot be marked as cancelled'
+      );
+    });
+
+    it('should reject transitions to the current status', () => {
+      expect(validateStatusTransition('COMPLETED', 'COMPLETED')).toBe('Task is already completed');
+    });
+  });
+});
@@ -0,0 +1,14 @@
+import { formatTimeRemaining } from '../../main/assets/js/timeoutWarning';
+
+describe('formatTimeRemaining', () => {
+  it('should show whole minutes, rounding up', () => {
+    expect(formatTimeRemaining(120)).toBe('2 minutes');
+    expect(formatTimeRemaining(61)).toBe('2 minutes');
+    expect(formatTimeRemaining(60)).toBe('1 minute');
+  });
+
+  it('should show seconds in the last minute', () => {
+    expect(formatTimeRemaining(59)).toBe('59 seconds');
+    expect(formatTimeRemaining(1)).toBe('1 second');
+  });
+});
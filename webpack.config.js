@@ -13,6 +13,8 @@ module.exports = {
   plugins: [...govukFrontend.plugins, ...scss.plugins, ...HtmlWebpack.plugins],
   entry: path.resolve(sourcePath, 'index.ts'),
   mode: devMode ? 'development' : 'production',
+  // The default development source maps use eval, which the Content Security Policy does not allow
+  devtool: devMode ? 'source-map' : false,
   module: {
     rules: [
       ...scss.rules,
@@ -15,8 +15,8 @@ module.exports = {
   rules: [
     {
       test: /\.scss$/,
+      // Styles are extracted to a file: style-loader's injected <style> tags would be blocked by the CSP
       use: [
-        'style-loader',
         {
           loader: MiniCssExtractPlugin.loader,
           options: {